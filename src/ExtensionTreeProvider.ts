@@ -1,4 +1,19 @@
 import * as vscode from "vscode";
+import { VersionPolicy } from "./versionPolicy.js";
+import { Keybinding } from "./keybindings.js";
+import { SnippetFiles } from "./snippets.js";
+import { SettingState, compareSetting, settingGroup } from "./settings.js";
+import { ResolvedProfile, combineProfiles } from "./profiles.js";
+import { Availability, AvailabilityResult } from "./registry.js";
+import { SettingRewrite } from "./platformSettings.js";
+import {
+  DEFAULT_VIEW_STATE,
+  TreeGrouping,
+  TreeViewState,
+  compareExtensions,
+  matchesFilter,
+  publisherOf,
+} from "./treeFilter.js";
 
 export enum ExtensionStatus {
   Pending = "pending",
@@ -6,14 +21,45 @@ export enum ExtensionStatus {
   Success = "success",
   Failed = "failed",
   AlreadyInstalled = "alreadyInstalled",
+  Removed = "removed",
+  ToDisable = "toDisable", // Handed to the user to disable in the Extensions view
 }
 
+// Where an item stands relative to what is installed locally
+export enum ComparisonState {
+  Missing = "missing",
+  VersionDiffers = "versionDiffers",
+  Identical = "identical",
+  NotInFile = "notInFile",
+  Unwanted = "unwanted",
+}
+
+const COMPARISON_GROUPS: { state: ComparisonState; label: string }[] = [
+  { state: ComparisonState.Missing, label: "Missing locally" },
+  {
+    state: ComparisonState.VersionDiffers,
+    label: "Installed, version differs",
+  },
+  { state: ComparisonState.Identical, label: "Installed and identical" },
+  { state: ComparisonState.NotInFile, label: "Installed but not in file" },
+  { state: ComparisonState.Unwanted, label: "Should be uninstalled" },
+];
+
+// Non-extension items (settings, keybindings) and their icons
+const SPECIAL_ITEM_ICONS: { [id: string]: string } = {
+  settings: "settings-gear",
+  keybindings: "keyboard",
+};
+
 export interface ExtensionData {
   id: string;
   displayName?: string;
   description?: string;
   version?: string;
   publisher?: string;
+  vsix?: string; // Package path relative to an offline bundle's manifest
+  disabled?: boolean; // Installed but disabled
+  preRelease?: boolean; // Installed from the pre-release channel
 }
 
 export class ExtensionItem extends vscode.TreeItem {
@@ -21,6 +67,14 @@ export class ExtensionItem extends vscode.TreeItem {
   public errorMessage?: string;
   public selected: boolean = true;
   public settingsData?: any; // To store settings content
+  public keybindingsData?: Keybinding[]; // To store keybindings content
+  public snippetContent?: string; // To store a snippet file's content
+  public installedVersion?: string; // Version currently installed locally
+  public versionPolicy?: VersionPolicy; // Per-item override of the global policy
+  public unwanted: boolean = false; // Listed in unwantedRecommendations
+  public availability?: AvailabilityResult; // Result of the registry check
+  public inFile: boolean = true; // False for installed extensions the file lacks
+  public localPackage?: string; // Absolute path of a bundled .vsix
 
   constructor(
     public readonly extensionData: ExtensionData,
@@ -33,14 +87,148 @@ export class ExtensionItem extends vscode.TreeItem {
     this.id = extensionData.id;
     this.settingsData = settingsData;
 
-    // Show description as secondary text (more useful than just ID)
-    this.description = extensionData.description
+    this.updateDescription();
+    this.updateTooltip();
+
+    this.updateContextValue();
+    this.updateCheckbox();
+    this.iconPath = this.defaultIcon();
+  }
+
+  // True for settings/keybindings items rather than extensions
+  get isSpecial(): boolean {
+    return !!this.id && this.id in SPECIAL_ITEM_ICONS;
+  }
+
+  // True for one file under the "Snippets" node
+  get isSnippet(): boolean {
+    return !!this.id && this.id.startsWith("snippet:");
+  }
+
+  // True for real extensions (not settings, keybindings or snippets)
+  get isExtension(): boolean {
+    return !this.isSpecial && !this.isSnippet;
+  }
+
+  private defaultIcon(): vscode.ThemeIcon {
+    if (this.isSnippet) {
+      return new vscode.ThemeIcon("symbol-snippet");
+    }
+    if (this.localPackage) {
+      return new vscode.ThemeIcon("package");
+    }
+    if (this.availability?.availability === Availability.Unavailable) {
+      return new vscode.ThemeIcon(
+        "circle-slash",
+        new vscode.ThemeColor("problemsWarningIcon.foreground")
+      );
+    }
+    return new vscode.ThemeIcon(
+      this.isSpecial ? SPECIAL_ITEM_ICONS[this.id!] : "extensions"
+    );
+  }
+
+  // True when the extension is installed at a different version than the file
+  get versionDiffers(): boolean {
+    return (
+      !!this.installedVersion &&
+      !!this.extensionData.version &&
+      this.installedVersion !== this.extensionData.version
+    );
+  }
+
+  get comparison(): ComparisonState {
+    if (this.unwanted) {
+      return ComparisonState.Unwanted;
+    }
+    if (!this.inFile) {
+      return ComparisonState.NotInFile;
+    }
+    if (!this.installedVersion) {
+      return ComparisonState.Missing;
+    }
+    return this.versionDiffers
+      ? ComparisonState.VersionDiffers
+      : ComparisonState.Identical;
+  }
+
+  setInstalledVersion(version: string | undefined) {
+    this.installedVersion = version;
+    this.updateContextValue();
+    this.updateDescription();
+    this.updateTooltip();
+  }
+
+  setLocalPackage(packagePath: string | undefined) {
+    this.localPackage = packagePath;
+    this.updateTooltip();
+    if (this.status === ExtensionStatus.Pending) {
+      this.iconPath = this.defaultIcon();
+    }
+  }
+
+  setVersionPolicy(policy: VersionPolicy | undefined) {
+    this.versionPolicy = policy;
+    this.updateTooltip();
+  }
+
+  setAvailability(result: AvailabilityResult | undefined) {
+    this.availability = result;
+    this.updateDescription();
+    this.updateTooltip();
+    if (this.status === ExtensionStatus.Pending) {
+      this.iconPath = this.defaultIcon();
+    }
+  }
+
+  updateContextValue() {
+    if (this.isSpecial) {
+      this.contextValue = `${this.id}Item`;
+    } else if (this.isSnippet) {
+      this.contextValue = "snippetItem";
+    } else if (this.unwanted) {
+      this.contextValue = "unwantedItem";
+    } else if (!this.inFile) {
+      this.contextValue = "installedOnlyItem";
+    } else {
+      this.contextValue = this.versionDiffers
+        ? "extensionItemVersionDiffers"
+        : "extensionItem";
+    }
+  }
+
+  // Show description as secondary text (more useful than just ID)
+  updateDescription() {
+    const extensionData = this.extensionData;
+    const text = extensionData.description
       ? extensionData.description.length > 50
         ? extensionData.description.substring(0, 47) + "..."
         : extensionData.description
       : extensionData.id;
+    if (this.unwanted) {
+      this.description = `${
+        this.installedVersion ? "should be uninstalled" : "not installed"
+      } · ${text}`;
+      return;
+    }
+    this.description = this.versionDiffers
+      ? `installed ${this.installedVersion} ≠ ${extensionData.version} · ${text}`
+      : text;
+    const states = [
+      extensionData.disabled ? "disabled" : "",
+      extensionData.preRelease ? "pre-release" : "",
+      this.availability?.availability === Availability.Unavailable
+        ? "unavailable"
+        : "",
+    ].filter((state) => state);
+    if (states.length > 0) {
+      this.description = `${states.join(", ")} · ${this.description}`;
+    }
+  }
 
-    // Rich tooltip with all details
+  // Rich tooltip with all details
+  updateTooltip() {
+    const extensionData = this.extensionData;
     const tooltipLines = [
       `**${extensionData.displayName || extensionData.id}**`,
       "",
@@ -50,22 +238,53 @@ export class ExtensionItem extends vscode.TreeItem {
       tooltipLines.push(`**Publisher:** ${extensionData.publisher}`);
     }
     if (extensionData.version) {
-      tooltipLines.push(`**Version:** ${extensionData.version}`);
+      tooltipLines.push(
+        `**Version:** ${extensionData.version}${
+          extensionData.preRelease ? " (pre-release)" : ""
+        }`
+      );
+    } else if (extensionData.preRelease) {
+      tooltipLines.push(`**Channel:** pre-release`);
+    }
+    if (extensionData.disabled) {
+      tooltipLines.push(`**State:** disabled`);
+    }
+    if (this.installedVersion) {
+      tooltipLines.push(
+        `**Installed:** ${this.installedVersion}${
+          this.versionDiffers ? " (differs from file)" : ""
+        }`
+      );
+    }
+    if (this.unwanted) {
+      tooltipLines.push(`**Unwanted:** listed in unwantedRecommendations`);
+    }
+    if (this.status === ExtensionStatus.ToDisable) {
+      tooltipLines.push(
+        `**Sync:** not in the file; disable it in the Extensions view`
+      );
+    }
+    if (this.versionPolicy) {
+      tooltipLines.push(`**Version Policy:** ${this.versionPolicy}`);
+    }
+    if (this.localPackage) {
+      tooltipLines.push(`**Local Package:** ${this.localPackage}`);
+    }
+    if (this.availability) {
+      const { availability, registry, latestVersion, reason } =
+        this.availability;
+      tooltipLines.push(
+        availability === Availability.Available
+          ? `**Registry:** available on ${registry}`
+          : availability === Availability.VersionDiffers
+          ? `**Registry:** ${reason} (latest: ${latestVersion || "unknown"})`
+          : `**Registry:** unavailable. ${reason}`
+      );
     }
     if (extensionData.description) {
       tooltipLines.push("", extensionData.description);
     }
     this.tooltip = new vscode.MarkdownString(tooltipLines.join("\n"));
-
-    this.contextValue = "extensionItem";
-    this.updateCheckbox();
-    this.iconPath = new vscode.ThemeIcon("extensions");
-
-    // Special handling for Settings item
-    if (this.id === "settings") {
-      this.iconPath = new vscode.ThemeIcon("settings-gear");
-      this.contextValue = "settingsItem";
-    }
   }
 
   updateCheckbox() {
@@ -102,46 +321,423 @@ export class ExtensionItem extends vscode.TreeItem {
           new vscode.ThemeColor("testing.iconPassed")
         );
         break;
+      case ExtensionStatus.Removed:
+        this.iconPath = new vscode.ThemeIcon(
+          "trash",
+          new vscode.ThemeColor("testing.iconSkipped")
+        );
+        break;
+      case ExtensionStatus.ToDisable:
+        this.iconPath = new vscode.ThemeIcon(
+          "circle-slash",
+          new vscode.ThemeColor("testing.iconSkipped")
+        );
+        break;
       default:
-        this.iconPath =
-          this.id === "settings"
-            ? new vscode.ThemeIcon("settings-gear")
-            : new vscode.ThemeIcon("extensions");
+        this.iconPath = this.defaultIcon();
+    }
+  }
+}
+
+// One key of the loaded settings, compared with the current settings.json
+export class SettingItem extends vscode.TreeItem {
+  public selected: boolean;
+
+  constructor(
+    public readonly key: string,
+    public readonly value: any,
+    public readonly state: SettingState,
+    currentValue?: any,
+    public readonly rewrites: SettingRewrite[] = [] // Platform translation
+  ) {
+    super(key, vscode.TreeItemCollapsibleState.None);
+    this.id = `setting:${key}`;
+    this.contextValue = "settingItem";
+    // Identical keys change nothing, so leave them out by default
+    this.selected = state !== SettingState.Identical;
+
+    const preview = JSON.stringify(value);
+    this.description = `${state}${rewrites.length > 0 ? ", rewritten" : ""} · ${
+      preview.length > 40 ? preview.substring(0, 37) + "..." : preview
+    }`;
+    this.iconPath = new vscode.ThemeIcon(
+      state === SettingState.New
+        ? "diff-added"
+        : state === SettingState.Changed
+        ? "diff-modified"
+        : "circle-small"
+    );
+
+    const tooltipLines = [
+      `**${key}**`,
+      "",
+      "**File:**",
+      "```json",
+      JSON.stringify(value, null, 2),
+      "```",
+    ];
+    if (state === SettingState.Changed) {
+      tooltipLines.push(
+        "**Current:**",
+        "```json",
+        JSON.stringify(currentValue, null, 2),
+        "```"
+      );
     }
+    rewrites.forEach((rewrite) =>
+      tooltipLines.push(
+        `**Rewritten (${rewrite.reason}):** \`${
+          rewrite.label
+        }\` was \`${JSON.stringify(rewrite.original)}\``
+      )
+    );
+    this.tooltip = new vscode.MarkdownString(tooltipLines.join("\n"));
+    this.updateCheckbox();
+  }
+
+  updateCheckbox() {
+    this.checkboxState = this.selected
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
   }
 }
 
+// Collapsible node grouping items (e.g. "Missing locally", "editor.*")
+export class GroupItem extends vscode.TreeItem {
+  constructor(
+    public readonly groupId: string,
+    label: string,
+    public readonly children: (ExtensionItem | SettingItem)[]
+  ) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.id = `group:${groupId}`;
+    this.contextValue = "groupItem";
+    this.iconPath = new vscode.ThemeIcon("folder");
+    this.updateCounts();
+  }
+
+  updateCounts() {
+    const selectedCount = this.children.filter((c) => c.selected).length;
+    this.description = `${this.children.length} items, ${selectedCount} selected`;
+    this.checkboxState =
+      this.children.length > 0 && selectedCount === this.children.length
+        ? vscode.TreeItemCheckboxState.Checked
+        : vscode.TreeItemCheckboxState.Unchecked;
+  }
+}
+
+// Collapsible node for one named profile; checking profiles selects the
+// union of their extensions and settings overrides
+export class ProfileItem extends vscode.TreeItem {
+  public selected: boolean = false;
+
+  constructor(public readonly profile: ResolvedProfile) {
+    super(profile.name, vscode.TreeItemCollapsibleState.Collapsed);
+    this.id = `profile:${profile.name}`;
+    this.contextValue = "profileItem";
+    this.iconPath = new vscode.ThemeIcon("layers");
+
+    const settingsCount = Object.keys(profile.settings).length;
+    this.description = `Profile · ${profile.extensions.length} extensions, ${settingsCount} settings`;
+    this.tooltip = profile.description || `Profile "${profile.name}"`;
+    this.updateCheckbox();
+  }
+
+  updateCheckbox() {
+    this.checkboxState = this.selected
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+  }
+}
+
+// Read-only child of a profile node listing one member extension
+export class ProfileMemberItem extends vscode.TreeItem {
+  constructor(profileName: string, extensionId: string, label?: string) {
+    super(label || extensionId, vscode.TreeItemCollapsibleState.None);
+    this.id = `profile:${profileName}:${extensionId}`;
+    this.description = label ? extensionId : undefined;
+    this.contextValue = "profileMemberItem";
+    this.iconPath = new vscode.ThemeIcon("extensions");
+  }
+}
+
+export type TreeNode =
+  | ExtensionItem
+  | GroupItem
+  | SettingItem
+  | ProfileItem
+  | ProfileMemberItem;
+
 export class ExtensionTreeProvider
-  implements vscode.TreeDataProvider<ExtensionItem>
+  implements vscode.TreeDataProvider<TreeNode>
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
-    ExtensionItem | undefined | null | void
-  > = new vscode.EventEmitter<ExtensionItem | undefined | null | void>();
+    TreeNode | undefined | null | void
+  > = new vscode.EventEmitter<TreeNode | undefined | null | void>();
   readonly onDidChangeTreeData: vscode.Event<
-    ExtensionItem | undefined | null | void
+    TreeNode | undefined | null | void
   > = this._onDidChangeTreeData.event;
 
   private extensions: ExtensionItem[] = [];
+  private groups: GroupItem[] = [];
+  private ungrouped: ExtensionItem[] = []; // Top-level items when not grouping
+  private viewState: TreeViewState = { ...DEFAULT_VIEW_STATE };
+  private snippetsGroup?: GroupItem;
+  private settingsGroups: GroupItem[] = [];
+  private profiles: ProfileItem[] = [];
+  private fileSettings?: { [key: string]: any }; // Top-level settings of the file
+  private settingsRewrites: SettingRewrite[] = []; // Platform translation of the loaded settings
 
-  getTreeItem(element: ExtensionItem): vscode.TreeItem {
+  // `categoriesOf` looks up the marketplace categories of an extension,
+  // used when grouping by category. `readCurrentSettings` returns the parsed
+  // local settings.json loaded settings are compared with; it is read again
+  // whenever the settings item is rebuilt.
+  constructor(
+    private readonly categoriesOf: (id: string) => string[] = () => [],
+    private readonly readCurrentSettings: () => {
+      [key: string]: any;
+    } = () => ({})
+  ) {}
+
+  getTreeItem(element: TreeNode): vscode.TreeItem {
     return element;
   }
 
-  getChildren(element?: ExtensionItem): Thenable<ExtensionItem[]> {
+  getChildren(element?: TreeNode): Thenable<TreeNode[]> {
+    if (element instanceof GroupItem) {
+      return Promise.resolve(element.children);
+    }
+    if (element instanceof ExtensionItem && element.id === "settings") {
+      return Promise.resolve(this.settingsGroups);
+    }
+    if (element instanceof ProfileItem) {
+      return Promise.resolve(
+        element.profile.extensions.map((id) => {
+          const ext = this.extensions.find(
+            (e) => e.id?.toLowerCase() === id.toLowerCase()
+          );
+          return new ProfileMemberItem(
+            element.profile.name,
+            id,
+            ext?.extensionData.displayName
+          );
+        })
+      );
+    }
     if (element) {
       return Promise.resolve([]);
     }
-    return Promise.resolve(this.extensions);
+    // Special items (e.g. settings) stay at the top, above the groups
+    const specialItems: TreeNode[] = this.extensions.filter((e) => e.isSpecial);
+    if (this.snippetsGroup) {
+      specialItems.push(this.snippetsGroup);
+    }
+    specialItems.push(...this.profiles);
+    return Promise.resolve(specialItems.concat(this.groups, this.ungrouped));
+  }
+
+  // Load the file's extensions and compare them against `installed`.
+  // `unwanted` IDs are listed as extensions that should be uninstalled.
+  loadExtensions(
+    extensionDataList: ExtensionData[],
+    installed: ExtensionData[] = [],
+    unwanted: string[] = []
+  ) {
+    const installedById = new Map(
+      installed.map((ext) => [ext.id.toLowerCase(), ext])
+    );
+    const fileItems = extensionDataList.map((data) => {
+      const item = new ExtensionItem(data);
+      item.setInstalledVersion(
+        installedById.get(data.id.toLowerCase())?.version
+      );
+      return item;
+    });
+
+    const unwantedItems = unwanted.map((id) => {
+      const installedData = installedById.get(id.toLowerCase());
+      const item = new ExtensionItem(
+        installedData ? { ...installedData, version: undefined } : { id }
+      );
+      item.unwanted = true;
+      item.inFile = false;
+      // Checked only when there is something to uninstall
+      item.selected = !!installedData;
+      item.setInstalledVersion(installedData?.version);
+      item.updateCheckbox();
+      return item;
+    });
+
+    const fileIds = new Set(
+      extensionDataList
+        .map((e) => e.id)
+        .concat(unwanted)
+        .map((id) => id.toLowerCase())
+    );
+    const installedOnly = installed
+      .filter((ext) => !fileIds.has(ext.id.toLowerCase()))
+      .map((data) => {
+        const item = new ExtensionItem(data);
+        item.inFile = false;
+        item.selected = false;
+        item.setInstalledVersion(data.version);
+        item.updateCheckbox();
+        return item;
+      });
+
+    this.extensions = fileItems.concat(unwantedItems, installedOnly);
+    this.snippetsGroup = undefined;
+    this.profiles = [];
+    this.fileSettings = undefined;
+    this.settingsGroups = [];
+    this.settingsRewrites = [];
+    this.rebuildGroups();
+    this.refresh();
+  }
+
+  // Re-bucket the items matching the filter into groups of the current
+  // grouping, hiding empty ones
+  private rebuildGroups() {
+    const items = this.visibleExtensions();
+    const compare = compareExtensions(this.viewState.sort);
+    if (compare) {
+      items.sort((a, b) => compare(a.extensionData, b.extensionData));
+    }
+
+    this.ungrouped = [];
+    switch (this.viewState.grouping) {
+      case TreeGrouping.Status:
+        this.groups = COMPARISON_GROUPS.map(
+          ({ state, label }) =>
+            new GroupItem(
+              state,
+              label,
+              items.filter((e) => e.comparison === state)
+            )
+        ).filter((g) => g.children.length > 0);
+        break;
+      case TreeGrouping.Publisher:
+        this.groups = this.bucket(items, "publisher", (e) =>
+          publisherOf(e.extensionData)
+        );
+        break;
+      case TreeGrouping.Category:
+        // First category only: an item can appear in one group at most
+        this.groups = this.bucket(
+          items,
+          "category",
+          (e) => this.categoriesOf(e.extensionData.id)[0]
+        );
+        break;
+      default:
+        this.groups = [];
+        this.ungrouped = items;
+    }
+  }
+
+  // One group per key in alphabetical order; items without a key go last
+  private bucket(
+    items: ExtensionItem[],
+    kind: "publisher" | "category",
+    keyOf: (item: ExtensionItem) => string | undefined
+  ): GroupItem[] {
+    const buckets = new Map<string, ExtensionItem[]>();
+    items.forEach((item) => {
+      const key = keyOf(item) || "";
+      buckets.set(key, [...(buckets.get(key) || []), item]);
+    });
+    const otherLabel =
+      kind === "publisher" ? "Unknown publisher" : "Uncategorized";
+    return Array.from(buckets.keys())
+      .sort((a, b) =>
+        !a || !b
+          ? Number(!a) - Number(!b)
+          : a.localeCompare(b, undefined, { sensitivity: "base" })
+      )
+      .map(
+        (key) =>
+          new GroupItem(`${kind}:${key}`, key || otherLabel, buckets.get(key)!)
+      );
+  }
+
+  // Extension items matching the filter, in file order
+  private visibleExtensions(): ExtensionItem[] {
+    return this.extensions.filter(
+      (e) =>
+        e.isExtension && matchesFilter(e.extensionData, this.viewState.filter)
+    );
+  }
+
+  getViewState(): TreeViewState {
+    return { ...this.viewState };
+  }
+
+  setViewState(state: Partial<TreeViewState>) {
+    this.viewState = { ...this.viewState, ...state };
+    this.rebuildGroups();
+    this.refresh();
+  }
+
+  // Counts for the view's description while a filter is set
+  getFilterCounts(): { visible: number; total: number } {
+    return {
+      visible: this.visibleExtensions().length,
+      total: this.extensions.filter((e) => e.isExtension).length,
+    };
+  }
+
+  // Check the extensions matching the filter and uncheck the hidden ones.
+  // Settings, keybindings and snippets are left alone.
+  selectOnlyVisible() {
+    const visible = new Set(this.visibleExtensions());
+    this.extensions
+      .filter((e) => e.isExtension)
+      .forEach((e) => {
+        e.selected = visible.has(e);
+        e.updateCheckbox();
+      });
+    this.allGroups().forEach((g) => g.updateCounts());
+    this.refresh();
+  }
+
+  // Uncheck the extensions matching the filter
+  deselectVisible() {
+    this.visibleExtensions().forEach((e) => {
+      e.selected = false;
+      e.updateCheckbox();
+    });
+    this.allGroups().forEach((g) => g.updateCounts());
+    this.refresh();
   }
 
-  loadExtensions(extensionDataList: ExtensionData[]) {
-    this.extensions = extensionDataList.map((data) => new ExtensionItem(data));
+  setGroupSelection(group: GroupItem, selected: boolean) {
+    group.children.forEach((ext) => {
+      ext.selected = selected;
+      ext.updateCheckbox();
+    });
+    group.updateCounts();
+    this.syncSettingsSelection();
     this.refresh();
   }
 
-  addSettingsItem(settingsData: any) {
-    // Remove existing settings item if any
+  // `rewrites` are the platform translations of the loaded settings
+  addSettingsItem(settingsData: any, rewrites: SettingRewrite[] = []) {
+    this.fileSettings = settingsData;
+    this.settingsRewrites = rewrites;
+    this.showSettings(settingsData);
+  }
+
+  // Remove the settings item and its per-key children
+  private removeSettings() {
     this.extensions = this.extensions.filter((e) => e.id !== "settings");
+    this.settingsGroups = [];
+  }
+
+  // (Re)build the settings item and its per-key children, compared with
+  // settings.json as it is now
+  private showSettings(settingsData: any) {
+    this.removeSettings();
+    const currentSettings = this.readCurrentSettings();
 
     const settingsItem = new ExtensionItem(
       {
@@ -154,8 +750,144 @@ export class ExtensionTreeProvider
       settingsData
     );
 
+    // One child per key, bucketed by prefix ("editor.*", "[python]", ...)
+    const byGroup = new Map<string, SettingItem[]>();
+    Object.keys(settingsData)
+      .sort()
+      .forEach((key) => {
+        const value = settingsData[key];
+        const item = new SettingItem(
+          key,
+          value,
+          compareSetting(key, value, currentSettings),
+          currentSettings[key],
+          this.settingsRewrites.filter((r) => r.key === key)
+        );
+        const group = settingGroup(key);
+        byGroup.set(group, [...(byGroup.get(group) || []), item]);
+      });
+    this.settingsGroups = Array.from(byGroup.entries()).map(
+      ([group, items]) => {
+        const groupItem = new GroupItem(`settings:${group}`, group, items);
+        groupItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        groupItem.iconPath = new vscode.ThemeIcon("symbol-namespace");
+        return groupItem;
+      }
+    );
+    if (this.settingsGroups.length > 0) {
+      settingsItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+    }
+
     // Add to top or bottom? Top seems better for visibility.
     this.extensions.unshift(settingsItem);
+    this.syncSettingsSelection();
+    this.refresh();
+  }
+
+  // `rewrites` are the platform translations of the profiles' settings
+  loadProfiles(profiles: ResolvedProfile[], rewrites: SettingRewrite[] = []) {
+    this.profiles = profiles.map((p) => new ProfileItem(p));
+    this.settingsRewrites = rewrites;
+    this.refresh();
+  }
+
+  // Select exactly the extensions of the checked profiles and show the
+  // file's settings with theirs merged on top. With no profile checked the
+  // extension selection is left alone and the file's own settings return.
+  private applyProfileSelection() {
+    const checked = this.profiles.filter((p) => p.selected);
+    const combined = combineProfiles(checked.map((p) => p.profile));
+    if (checked.length > 0) {
+      const ids = new Set(combined.extensions.map((id) => id.toLowerCase()));
+      this.extensions
+        .filter((e) => e.isExtension && e.inFile)
+        .forEach((e) => {
+          e.selected = ids.has(e.extensionData.id.toLowerCase());
+          e.updateCheckbox();
+        });
+    }
+
+    const settings = { ...(this.fileSettings || {}), ...combined.settings };
+    if (this.fileSettings || Object.keys(settings).length > 0) {
+      this.showSettings(settings);
+    } else {
+      this.removeSettings();
+    }
+    this.allGroups().forEach((g) => g.updateCounts());
+    this.refresh();
+  }
+
+  // Rewrites behind the checked setting keys
+  getSelectedRewrites(): SettingRewrite[] {
+    const selected = this.getSelectedSettings();
+    return this.settingsRewrites.filter((r) => r.key in selected);
+  }
+
+  // Setting keys that are checked, ready to be applied
+  getSelectedSettings(): { [key: string]: any } {
+    const selected: { [key: string]: any } = {};
+    this.settingsGroups.forEach((g) =>
+      g.children.forEach((c) => {
+        if (c instanceof SettingItem && c.selected) {
+          selected[c.key] = c.value;
+        }
+      })
+    );
+    return selected;
+  }
+
+  // The settings item is checked while any of its keys is
+  private syncSettingsSelection() {
+    const settingsItem = this.extensions.find((e) => e.id === "settings");
+    if (settingsItem && this.settingsGroups.length > 0) {
+      settingsItem.selected = this.settingsGroups.some((g) =>
+        g.children.some((c) => c.selected)
+      );
+      settingsItem.updateCheckbox();
+    }
+  }
+
+  addKeybindingsItem(keybindingsData: Keybinding[]) {
+    // Remove existing keybindings item if any
+    this.extensions = this.extensions.filter((e) => e.id !== "keybindings");
+
+    const keybindingsItem = new ExtensionItem({
+      id: "keybindings",
+      displayName: "Keyboard Shortcuts",
+      description: `User keybindings.json (${keybindingsData.length} bindings)`,
+      publisher: "User",
+      version: "Current",
+    });
+    keybindingsItem.keybindingsData = keybindingsData;
+
+    // Keep it right after the settings item
+    const settingsIndex = this.extensions.findIndex((e) => e.id === "settings");
+    this.extensions.splice(settingsIndex + 1, 0, keybindingsItem);
+    this.refresh();
+  }
+
+  addSnippetItems(snippets: SnippetFiles) {
+    // Remove existing snippet items if any
+    this.extensions = this.extensions.filter((e) => !e.isSnippet);
+
+    const snippetItems = Object.keys(snippets)
+      .sort()
+      .map((fileName) => {
+        const item = new ExtensionItem({
+          id: `snippet:${fileName}`,
+          displayName: fileName,
+          description: "User snippets file",
+          publisher: "User",
+        });
+        item.snippetContent = snippets[fileName];
+        return item;
+      });
+
+    this.extensions.push(...snippetItems);
+    this.snippetsGroup =
+      snippetItems.length > 0
+        ? new GroupItem("snippets", "Snippets", snippetItems)
+        : undefined;
     this.refresh();
   }
 
@@ -168,21 +900,28 @@ export class ExtensionTreeProvider
   }
 
   selectAll() {
-    this.extensions.forEach((ext) => {
-      ext.selected = true;
-      ext.updateCheckbox();
-    });
-    this.refresh();
+    this.setAllSelection(true);
   }
 
   deselectAll() {
+    this.setAllSelection(false);
+  }
+
+  private setAllSelection(selected: boolean) {
     this.extensions.forEach((ext) => {
-      ext.selected = false;
+      ext.selected = selected;
       ext.updateCheckbox();
     });
+    this.settingsGroups.forEach((g) => this.setGroupSelection(g, selected));
+    this.allGroups().forEach((g) => g.updateCounts());
     this.refresh();
   }
 
+  private allGroups(): GroupItem[] {
+    const groups = this.settingsGroups.concat(this.groups);
+    return this.snippetsGroup ? [this.snippetsGroup, ...groups] : groups;
+  }
+
   updateExtensionStatus(
     id: string,
     status: ExtensionStatus,
@@ -193,19 +932,83 @@ export class ExtensionTreeProvider
       ext.status = status;
       ext.errorMessage = errorMessage;
       ext.updateIcon();
+      ext.updateTooltip();
       this._onDidChangeTreeData.fire(ext);
     }
   }
 
+  // Attach bundled .vsix files (offline bundles) to the loaded items
+  setLocalPackages(resolve: (data: ExtensionData) => string | undefined) {
+    this.extensions
+      .filter((e) => e.isExtension && e.inFile)
+      .forEach((e) => e.setLocalPackage(resolve(e.extensionData)));
+    this.refresh();
+  }
+
+  // Record a registry check result; unavailable items are unchecked
+  setAvailability(id: string, result: AvailabilityResult) {
+    const ext = this.extensions.find((e) => e.id === id);
+    if (ext) {
+      ext.setAvailability(result);
+      if (result.availability === Availability.Unavailable) {
+        ext.selected = false;
+        ext.updateCheckbox();
+        this.allGroups().forEach((g) => g.updateCounts());
+      }
+      this.refresh();
+    }
+  }
+
+  setVersionPolicy(item: ExtensionItem, policy: VersionPolicy | undefined) {
+    item.setVersionPolicy(policy);
+    this._onDidChangeTreeData.fire(item);
+  }
+
+  // Record the version now on disk (e.g. after a successful install)
+  updateInstalledVersion(id: string, version: string | undefined) {
+    const ext = this.extensions.find((e) => e.id === id);
+    if (ext) {
+      ext.setInstalledVersion(version);
+      this.rebuildGroups();
+      this.refresh();
+    }
+  }
+
   refresh(): void {
     this._onDidChangeTreeData.fire();
   }
 
-  handleCheckboxChange(
-    item: ExtensionItem,
-    state: vscode.TreeItemCheckboxState
-  ) {
-    item.selected = state === vscode.TreeItemCheckboxState.Checked;
+  handleCheckboxChange(item: TreeNode, state: vscode.TreeItemCheckboxState) {
+    const selected = state === vscode.TreeItemCheckboxState.Checked;
+    if (item instanceof GroupItem) {
+      this.setGroupSelection(item, selected);
+      return;
+    }
+    if (item instanceof ProfileItem) {
+      item.selected = selected;
+      item.updateCheckbox();
+      this.applyProfileSelection();
+      return;
+    }
+    if (item instanceof ProfileMemberItem) {
+      return;
+    }
+    if (item.id === "settings" && this.settingsGroups.length > 0) {
+      // Toggling the settings item toggles every key below it
+      this.settingsGroups.forEach((g) => this.setGroupSelection(g, selected));
+      return;
+    }
+    item.selected = selected;
     item.updateCheckbox();
+    this.allGroups()
+      .filter((g) => g.children.includes(item))
+      .forEach((g) => {
+        g.updateCounts();
+        this._onDidChangeTreeData.fire(g);
+      });
+    if (item instanceof SettingItem) {
+      this.syncSettingsSelection();
+      this.refresh();
+    }
   }
 }
@@ -0,0 +1,111 @@
+import * as vscode from "vscode";
+import { ExtensionStatus } from "./ExtensionTreeProvider.js";
+import {
+  InstallReport,
+  ReportItem,
+  describeSummary,
+  formatDuration,
+} from "./installReport.js";
+
+const STATUS_ICONS: { [status: string]: vscode.ThemeIcon } = {
+  [ExtensionStatus.Success]: new vscode.ThemeIcon(
+    "check",
+    new vscode.ThemeColor("testing.iconPassed")
+  ),
+  [ExtensionStatus.Failed]: new vscode.ThemeIcon(
+    "error",
+    new vscode.ThemeColor("testing.iconFailed")
+  ),
+  [ExtensionStatus.AlreadyInstalled]: new vscode.ThemeIcon("pass"),
+  [ExtensionStatus.Removed]: new vscode.ThemeIcon("trash"),
+  [ExtensionStatus.ToDisable]: new vscode.ThemeIcon("circle-slash"),
+};
+
+// One past run; expands to its items
+export class ReportRunItem extends vscode.TreeItem {
+  constructor(public readonly report: InstallReport, latest: boolean) {
+    super(
+      `${report.title} · ${new Date(report.startedAt).toLocaleString()}`,
+      latest
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    this.id = `report:${report.id}`;
+    this.contextValue = "reportRun";
+    this.description = describeSummary(report);
+    this.tooltip = new vscode.MarkdownString(
+      [
+        `**${report.title}**`,
+        "",
+        `**Started:** ${report.startedAt}`,
+        `**Finished:** ${report.finishedAt || "did not finish"}`,
+        `**Installer:** ${report.cliPath}`,
+        report.cancelled ? "**Cancelled** before all items ran" : "",
+      ]
+        .filter(Boolean)
+        .join("\n\n")
+    );
+    this.iconPath = new vscode.ThemeIcon(
+      report.items.some((item) => item.status === ExtensionStatus.Failed)
+        ? "warning"
+        : "history"
+    );
+  }
+}
+
+// One installed, skipped, removed or failed item of a run
+export class ReportEntryItem extends vscode.TreeItem {
+  constructor(reportId: string, public readonly entry: ReportItem) {
+    super(entry.id, vscode.TreeItemCollapsibleState.None);
+    this.id = `report:${reportId}:${entry.id}`;
+    this.contextValue = "reportEntry";
+    this.description = `${entry.action} · ${entry.status} · ${formatDuration(
+      entry.durationMs
+    )}`;
+    const lines = [`**${entry.spec || entry.id}**`];
+    if (entry.error) {
+      lines.push("", "```text", entry.stderr || entry.error, "```");
+    }
+    this.tooltip = new vscode.MarkdownString(lines.join("\n"));
+    this.iconPath =
+      STATUS_ICONS[entry.status] || new vscode.ThemeIcon("circle-outline");
+  }
+}
+
+export type ReportNode = ReportRunItem | ReportEntryItem;
+
+// Past installation runs, newest first
+export class ReportTreeProvider implements vscode.TreeDataProvider<ReportNode> {
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    ReportNode | undefined | null | void
+  > = new vscode.EventEmitter<ReportNode | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    ReportNode | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  constructor(private readonly loadReports: () => InstallReport[]) {}
+
+  getTreeItem(element: ReportNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ReportNode): Thenable<ReportNode[]> {
+    if (element instanceof ReportRunItem) {
+      return Promise.resolve(
+        element.report.items.map(
+          (entry) => new ReportEntryItem(element.report.id, entry)
+        )
+      );
+    }
+    if (element) {
+      return Promise.resolve([]);
+    }
+    return Promise.resolve(
+      this.loadReports().map((report, i) => new ReportRunItem(report, i === 0))
+    );
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+}
@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import { ExportData } from "./exportFormat.js";
+import { diffExports, summarizeDiff } from "./exportDiff.js";
+import { SnapshotInfo, readSnapshot } from "./snapshots.js";
+
+// One snapshot, described by what changed since the one before it
+export class SnapshotItem extends vscode.TreeItem {
+  constructor(
+    public readonly snapshot: SnapshotInfo,
+    data: ExportData | undefined,
+    previous: ExportData | undefined
+  ) {
+    super(
+      new Date(snapshot.takenAt).toLocaleString(),
+      vscode.TreeItemCollapsibleState.None
+    );
+    this.id = `snapshot:${snapshot.id}`;
+    this.contextValue = "snapshot";
+    if (!data) {
+      this.description = "unreadable";
+      this.iconPath = new vscode.ThemeIcon("warning");
+      this.tooltip = snapshot.file;
+      return;
+    }
+    const changes = previous
+      ? summarizeDiff(diffExports(previous, data))
+      : "oldest kept";
+    this.description = `${data.extensions.length} extensions${
+      changes ? ` · ${changes}` : ""
+    }`;
+    this.tooltip = new vscode.MarkdownString(
+      [
+        `**Snapshot of ${snapshot.takenAt}**`,
+        "",
+        `${data.extensions.length} extensions, ${
+          Object.keys(data.settings || {}).length
+        } settings`,
+        "",
+        `\`${snapshot.file}\``,
+      ].join("\n")
+    );
+    this.iconPath = new vscode.ThemeIcon("device-camera");
+  }
+}
+
+// Saved snapshots, newest first
+export class SnapshotTreeProvider
+  implements vscode.TreeDataProvider<SnapshotItem>
+{
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    SnapshotItem | undefined | null | void
+  > = new vscode.EventEmitter<SnapshotItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    SnapshotItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  constructor(private readonly loadSnapshots: () => SnapshotInfo[]) {}
+
+  getTreeItem(element: SnapshotItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: SnapshotItem): Thenable<SnapshotItem[]> {
+    if (element) {
+      return Promise.resolve([]);
+    }
+    const snapshots = this.loadSnapshots();
+    const data = snapshots.map((snapshot) => {
+      try {
+        return readSnapshot(snapshot);
+      } catch {
+        return undefined;
+      }
+    });
+    return Promise.resolve(
+      snapshots.map(
+        (snapshot, i) => new SnapshotItem(snapshot, data[i], data[i + 1])
+      )
+    );
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+}
@@ -0,0 +1,540 @@
+#!/usr/bin/env node
+// Headless entry point for provisioning machines and CI runners without
+// the editor UI. Shares the export format, importers and install planning
+// with the extension.
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { ExportData, createExportData } from "./exportFormat.js";
+import { importExtensionList, ImportResult } from "./importers.js";
+import { defaultUserDataDir, userFiles } from "./editorPaths.js";
+import { EditorCli, listInstalledExtensions } from "./editorCli.js";
+import {
+  ExtensionHost,
+  createCliBackend,
+  createDryRunBackend,
+} from "./installers.js";
+import { runCommand, runQueue, withRetries } from "./installQueue.js";
+import {
+  InstallPlan,
+  VersionPolicy,
+  parseVersionPolicy,
+  planInstall,
+  usePreRelease,
+} from "./versionPolicy.js";
+import { resolveLocalPackage } from "./offlineBundle.js";
+import {
+  SettingState,
+  buildSettingsContent,
+  compareSetting,
+  createSettingsBackup,
+  parseSettings,
+} from "./settings.js";
+import { mergeKeybindings, parseKeybindings } from "./keybindings.js";
+import { readSnippetFiles } from "./snippets.js";
+import {
+  applyRedactions,
+  buildRedactionRules,
+  findRedactions,
+  resolvePlaceholders,
+} from "./redaction.js";
+import { translateSettings } from "./platformSettings.js";
+import {
+  EncryptionScope,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+} from "./encryption.js";
+
+// Passphrase for encrypted files
+const PASSPHRASE_ENV = "EXTENSION_MANAGER_PASSPHRASE";
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // Install failures, differences or schema problems
+const EXIT_USAGE = 2; // Bad arguments or unreadable input
+
+const USAGE = `Usage: vscode-extension-manager <command> [options]
+
+Commands:
+  export     Write installed extensions, settings, keybindings and snippets
+             to --file (stdout if omitted)
+  import     Install the extensions in --file and apply its settings,
+             keybindings and snippets
+  diff       Compare --file with what is installed
+  validate   Check --file for format problems
+
+Options:
+  -f, --file <path>         Extensions file
+  --cli <binary>            Editor CLI to call (default: code)
+  --user-data-dir <dir>     Editor user data directory (default: the editor's own)
+  --extensions-dir <dir>    Extensions folder passed to the CLI
+  --policy <policy>         import: exact, minimum or latest (default: exact)
+  --concurrency <n>         import: extensions installed at once (default: 4)
+  --no-settings             import: leave settings, keybindings and snippets alone
+  --dry-run                 import: print what would be installed, change nothing
+  --no-redact               export: keep secrets and home-directory paths
+  --encrypt <scope>         export: encrypt "settings" or the whole "file"
+  -h, --help                Show this help
+
+Encrypted files are read, and --encrypt writes them, with the passphrase
+in the ${PASSPHRASE_ENV} environment variable.
+
+Exit codes: 0 success (diff: no differences), 1 install failures,
+differences or format problems, 2 bad arguments or unreadable input.
+`;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  command: string;
+  file?: string;
+  editor: EditorCli;
+  userDir: string; // <user data dir>/User
+  policy: VersionPolicy;
+  concurrency: number;
+  settings: boolean;
+  redact: boolean;
+  dryRun: boolean;
+  encrypt?: EncryptionScope;
+}
+
+function parseArgs(argv: string[]): CliOptions | undefined {
+  const [command, ...rest] = argv;
+  if (!command || command === "-h" || command === "--help") {
+    return undefined;
+  }
+  if (!["export", "import", "diff", "validate"].includes(command)) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  const values: { [flag: string]: string } = {};
+  const switches = new Set<string>();
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "-h" || arg === "--help") {
+      return undefined;
+    }
+    if (
+      arg === "--no-settings" ||
+      arg === "--no-redact" ||
+      arg === "--dry-run"
+    ) {
+      switches.add(arg);
+      continue;
+    }
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+    const name = flag === "-f" ? "--file" : flag;
+    if (
+      ![
+        "--file",
+        "--cli",
+        "--user-data-dir",
+        "--extensions-dir",
+        "--policy",
+        "--concurrency",
+        "--encrypt",
+      ].includes(name)
+    ) {
+      throw new UsageError(`Unknown option "${arg}"`);
+    }
+    const value = inline !== undefined ? inline : rest[++i];
+    if (value === undefined || value === "") {
+      throw new UsageError(`${flag} needs a value`);
+    }
+    values[name] = value;
+  }
+
+  if (command !== "export" && !values["--file"]) {
+    throw new UsageError(`${command} needs --file`);
+  }
+  if (
+    values["--policy"] &&
+    !Object.values(VersionPolicy).includes(values["--policy"] as VersionPolicy)
+  ) {
+    throw new UsageError(`--policy must be exact, minimum or latest`);
+  }
+  const concurrency = Number(values["--concurrency"] || 4);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError(`--concurrency must be a positive whole number`);
+  }
+
+  if (
+    values["--encrypt"] &&
+    !["settings", "file"].includes(values["--encrypt"])
+  ) {
+    throw new UsageError(`--encrypt must be settings or file`);
+  }
+  if (values["--encrypt"] && !process.env[PASSPHRASE_ENV]) {
+    throw new UsageError(`--encrypt needs the ${PASSPHRASE_ENV} variable`);
+  }
+
+  const cli = values["--cli"] || "code";
+  const userDataDir = values["--user-data-dir"];
+  return {
+    command,
+    file: values["--file"],
+    editor: {
+      command: cli,
+      userDataDir,
+      extensionsDir: values["--extensions-dir"],
+    },
+    userDir: path.join(userDataDir || defaultUserDataDir(cli), "User"),
+    policy: parseVersionPolicy(values["--policy"]),
+    concurrency,
+    settings: !switches.has("--no-settings"),
+    redact: !switches.has("--no-redact"),
+    dryRun: switches.has("--dry-run"),
+    encrypt: values["--encrypt"] as EncryptionScope | undefined,
+  };
+}
+
+// Read and parse --file, printing problems with their location. Throws a
+// UsageError when the file cannot be read at all.
+async function readExtensionsFile(file: string): Promise<ImportResult> {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, "utf8");
+  } catch (e: any) {
+    throw new UsageError(`Cannot read ${file}: ${e.message}`);
+  }
+  let result: ImportResult;
+  try {
+    if (isEncryptedExport(content)) {
+      const passphrase = process.env[PASSPHRASE_ENV];
+      if (!passphrase) {
+        throw new Error(
+          `The file is encrypted; set ${PASSPHRASE_ENV} to its passphrase`
+        );
+      }
+      content = await decryptExport(content, passphrase);
+    }
+    result = importExtensionList(content);
+  } catch (e: any) {
+    throw new UsageError(`${file}: ${e.message}`);
+  }
+  result.unparsed.forEach((entry) =>
+    console.error(
+      `${file}:${entry.line}${
+        entry.column ? `:${entry.column}` : ""
+      }: ${entry.text.trim()}: ${entry.reason}`
+    )
+  );
+  return result;
+}
+
+function readFileIfExists(file: string): string {
+  return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+}
+
+async function exportCommand(options: CliOptions): Promise<number> {
+  const files = userFiles(options.userDir);
+  const extensions = await listInstalledExtensions(options.editor);
+
+  let settings = parseSettings(readFileIfExists(files.settings));
+  if (options.redact) {
+    const findings = findRedactions(
+      settings,
+      buildRedactionRules([], [], os.homedir())
+    );
+    settings = applyRedactions(settings, findings);
+    if (findings.length > 0) {
+      console.error(
+        `Redacted ${findings.length} values (use --no-redact to keep them).`
+      );
+    }
+  }
+  const keybindings = fs.existsSync(files.keybindings)
+    ? parseKeybindings(fs.readFileSync(files.keybindings, "utf8"))
+    : undefined;
+
+  const data = createExportData(
+    path.parse(options.editor.command.replace(/"/g, "")).name,
+    extensions,
+    settings,
+    keybindings,
+    readSnippetFiles(files.snippets),
+    !options.redact
+  );
+  const text = JSON.stringify(
+    options.encrypt
+      ? await encryptExport(data, process.env[PASSPHRASE_ENV]!, options.encrypt)
+      : data,
+    null,
+    2
+  );
+  if (options.file) {
+    fs.writeFileSync(options.file, text);
+    console.error(
+      `Exported ${extensions.length} extensions and ${
+        Object.keys(settings).length
+      } settings to ${options.file}`
+    );
+  } else {
+    process.stdout.write(text + "\n");
+  }
+  return EXIT_OK;
+}
+
+async function importCommand(options: CliOptions): Promise<number> {
+  const { data } = await readExtensionsFile(options.file!);
+  const installed = new Map(
+    (await listInstalledExtensions(options.editor)).map((ext) => [
+      ext.id.toLowerCase(),
+      ext.version,
+    ])
+  );
+  const installer = options.dryRun
+    ? createDryRunBackend((line) => console.log(line))
+    : createCliBackend(options.editor, ExtensionHost.Local, (command) =>
+        withRetries(
+          () => runCommand(command, { timeoutMs: 300000 }),
+          2,
+          2000,
+          () => false
+        )
+      );
+  let failed = 0;
+
+  // 1. Extensions
+  await runQueue(
+    data.extensions,
+    options.concurrency,
+    async (ext) => {
+      const localPackage = resolveLocalPackage(ext, options.file!);
+      let plan: InstallPlan;
+      try {
+        plan = planInstall(
+          ext.id,
+          ext.version,
+          installed.get(ext.id.toLowerCase()),
+          options.policy,
+          localPackage
+        );
+      } catch (e: any) {
+        failed++;
+        console.error(`! ${ext.id}: ${e.message}`);
+        return;
+      }
+      if (plan.action === "skip") {
+        console.log(`= ${ext.id} (${plan.reason})`);
+        return;
+      }
+      const result = await installer.install(
+        {
+          extensionId: ext.id,
+          spec: plan.spec,
+          force: plan.force,
+          preRelease: usePreRelease(ext, plan.spec),
+          localPackage,
+        },
+        ExtensionHost.Local
+      );
+      if (result.success && !options.dryRun) {
+        console.log(`+ ${plan.spec}`);
+      } else if (!result.success) {
+        failed++;
+        console.error(`! ${plan.spec}: ${result.error}`);
+      }
+    },
+    () => false
+  );
+
+  if (options.settings && options.dryRun) {
+    console.log("[dry run] Leaving settings, keybindings and snippets alone");
+  } else if (options.settings) {
+    failed += await applyUserData(data, options);
+  }
+
+  console.log(
+    `${data.extensions.length} extensions processed, ${failed} failures.`
+  );
+  return failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+// Settings of `data` as they would be applied here: moved to this platform
+// with ${userHome} expanded. Redacted values cannot be asked for, so their
+// keys are left out and their labels added to `skipped`.
+async function settingsForThisMachine(
+  data: Partial<ExportData>,
+  skipped: string[]
+): Promise<{ [key: string]: any }> {
+  const translated = translateSettings(
+    data.settings || {},
+    { platform: data.meta?.platform, homeDir: data.meta?.homeDir },
+    { platform: process.platform, homeDir: os.homedir() }
+  ).settings;
+  return resolvePlaceholders(translated, os.homedir(), (label) => {
+    skipped.push(label);
+    return Promise.resolve(undefined);
+  });
+}
+
+// Apply settings, keybindings and snippets of `data`. Returns the number
+// of failures.
+async function applyUserData(
+  data: Partial<ExportData>,
+  options: CliOptions
+): Promise<number> {
+  const files = userFiles(options.userDir);
+  let failed = 0;
+
+  // 2. Settings, moved to this platform and with ${userHome} expanded.
+  // Redacted values cannot be asked for here, so those keys are skipped.
+  if (data.settings && Object.keys(data.settings).length > 0) {
+    try {
+      const skipped: string[] = [];
+      const resolved = await settingsForThisMachine(data, skipped);
+      const backup = createSettingsBackup(
+        files.settings,
+        path.join(options.userDir, "settings-backups")
+      );
+      if (backup) {
+        console.log(`Backed up settings to ${backup.file}`);
+      }
+      fs.mkdirSync(path.dirname(files.settings), { recursive: true });
+      fs.writeFileSync(
+        files.settings,
+        buildSettingsContent(readFileIfExists(files.settings), resolved)
+      );
+      console.log(`Applied ${Object.keys(resolved).length} settings.`);
+      skipped.forEach((label) =>
+        console.error(`Skipped redacted setting ${label}`)
+      );
+    } catch (e: any) {
+      failed++;
+      console.error(`! settings: ${e.message}`);
+    }
+  }
+
+  // 3. Keybindings
+  if (data.keybindings && data.keybindings.length > 0) {
+    try {
+      const merge = mergeKeybindings(
+        readFileIfExists(files.keybindings),
+        data.keybindings
+      );
+      fs.mkdirSync(path.dirname(files.keybindings), { recursive: true });
+      fs.writeFileSync(files.keybindings, merge.text);
+      console.log(
+        `Merged keybindings: ${merge.added.length} added, ${merge.duplicates.length} duplicates skipped, ${merge.conflicts.length} conflicts.`
+      );
+    } catch (e: any) {
+      failed++;
+      console.error(`! keybindings: ${e.message}`);
+    }
+  }
+
+  // 4. Snippets; files that exist with other content are left alone
+  Object.keys(data.snippets || {}).forEach((fileName) => {
+    const target = path.join(files.snippets, path.basename(fileName));
+    const content = data.snippets![fileName];
+    try {
+      if (fs.existsSync(target)) {
+        if (fs.readFileSync(target, "utf8") !== content) {
+          console.error(
+            `Skipped snippets ${fileName}: exists with other content`
+          );
+        }
+        return;
+      }
+      fs.mkdirSync(files.snippets, { recursive: true });
+      fs.writeFileSync(target, content);
+      console.log(`Wrote snippets ${fileName}`);
+    } catch (e: any) {
+      failed++;
+      console.error(`! snippets ${fileName}: ${e.message}`);
+    }
+  });
+  return failed;
+}
+
+async function diffCommand(options: CliOptions): Promise<number> {
+  const { data } = await readExtensionsFile(options.file!);
+  const installed = await listInstalledExtensions(options.editor);
+  const installedById = new Map(
+    installed.map((ext) => [ext.id.toLowerCase(), ext])
+  );
+  const fileIds = new Set(data.extensions.map((ext) => ext.id.toLowerCase()));
+  const lines: string[] = [];
+
+  data.extensions.forEach((ext: ExtensionData) => {
+    const local = installedById.get(ext.id.toLowerCase());
+    if (!local) {
+      lines.push(`+ ${ext.id}${ext.version ? `@${ext.version}` : ""}`);
+    } else if (ext.version && local.version !== ext.version) {
+      lines.push(`~ ${ext.id} ${local.version} -> ${ext.version}`);
+    }
+  });
+  installed
+    .filter((ext) => !fileIds.has(ext.id.toLowerCase()))
+    .forEach((ext) => lines.push(`- ${ext.id}@${ext.version}`));
+
+  const current = parseSettings(
+    readFileIfExists(userFiles(options.userDir).settings)
+  );
+  // Compared as import would write them; redacted values are unknown
+  const skipped: string[] = [];
+  const settings = await settingsForThisMachine(data, skipped);
+  skipped.forEach((label) =>
+    console.error(`Not compared: redacted setting ${label}`)
+  );
+  Object.keys(settings).forEach((key) => {
+    const state = compareSetting(key, settings[key], current);
+    if (state === SettingState.New) {
+      lines.push(`+ setting ${key}`);
+    } else if (state === SettingState.Changed) {
+      lines.push(`~ setting ${key}`);
+    }
+  });
+
+  lines.forEach((line) => console.log(line));
+  if (lines.length === 0) {
+    console.log("No differences.");
+    return EXIT_OK;
+  }
+  return EXIT_FAILED;
+}
+
+async function validateCommand(options: CliOptions): Promise<number> {
+  const result = await readExtensionsFile(options.file!);
+  console.log(
+    `${options.file}: ${result.format}, ${result.data.extensions.length} extensions, ${result.unparsed.length} problems`
+  );
+  return result.unparsed.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseArgs(argv);
+  } catch (e: any) {
+    console.error(`${e.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  try {
+    switch (options.command) {
+      case "export":
+        return await exportCommand(options);
+      case "import":
+        return await importCommand(options);
+      case "diff":
+        return await diffCommand(options);
+      default:
+        return await validateCommand(options);
+    }
+  } catch (e: any) {
+    console.error(e.message);
+    return e instanceof UsageError ? EXIT_USAGE : EXIT_FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
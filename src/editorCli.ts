@@ -0,0 +1,71 @@
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { RunCommandOptions, quoteArg, runCommand } from "./installQueue.js";
+
+// Editor CLI to call, optionally pointed at another profile or extensions
+// folder (--user-data-dir / --extensions-dir)
+export interface EditorCli {
+  command: string; // Shell-ready, e.g. code or "/Applications/.../bin/code"
+  userDataDir?: string;
+  extensionsDir?: string;
+}
+
+// Argv (program first) running the CLI with `args` and the profile flags
+export function cliArgv(cli: EditorCli, args: string[]): string[] {
+  return [
+    cli.command.replace(/^"(.*)"$/, "$1"),
+    ...args,
+    ...(cli.userDataDir ? ["--user-data-dir", cli.userDataDir] : []),
+    ...(cli.extensionsDir ? ["--extensions-dir", cli.extensionsDir] : []),
+  ];
+}
+
+// Command line for `args` as shown in logs and reports
+export function cliCommand(cli: EditorCli, args: string[] = []): string {
+  return cliArgv(cli, args).map(quoteArg).join(" ");
+}
+
+// `spec` is "publisher.name", "publisher.name@version" or a .vsix path
+export function installArgs(
+  spec: string,
+  force: boolean = false,
+  preRelease: boolean = false
+): string[] {
+  return [
+    "--install-extension",
+    spec,
+    ...(force ? ["--force"] : []),
+    ...(preRelease ? ["--pre-release"] : []),
+  ];
+}
+
+export function uninstallArgs(extensionId: string): string[] {
+  return ["--uninstall-extension", extensionId];
+}
+
+// Parse `--list-extensions --show-versions` output ("publisher.name@1.2.3"
+// per line)
+export function parseListedExtensions(output: string): ExtensionData[] {
+  return output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => /^[\w-]+\.[\w.-]+(@\S+)?$/.test(line))
+    .map((line) => {
+      const [id, version] = line.split("@");
+      return version ? { id, version } : { id };
+    });
+}
+
+// Extensions installed for `cli`'s profile, as the CLI reports them
+export async function listInstalledExtensions(
+  cli: EditorCli,
+  options: RunCommandOptions = {}
+): Promise<ExtensionData[]> {
+  const result = await runCommand(
+    cliArgv(cli, ["--list-extensions", "--show-versions"]),
+    options
+  );
+  if (!result.success) {
+    throw new Error(result.error || "Could not list installed extensions");
+  }
+  return parseListedExtensions(result.stdout);
+}
@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+// Files of one editor user profile (<user data dir>/User)
+export interface UserFiles {
+  settings: string;
+  keybindings: string;
+  snippets: string; // Folder
+}
+
+export function userFiles(userDir: string): UserFiles {
+  return {
+    settings: path.join(userDir, "settings.json"),
+    keybindings: path.join(userDir, "keybindings.json"),
+    snippets: path.join(userDir, "snippets"),
+  };
+}
+
+// Product folder name of each CLI, as used in the user data path
+const PRODUCT_FOLDERS: { [cli: string]: string } = {
+  code: "Code",
+  "code-insiders": "Code - Insiders",
+  cursor: "Cursor",
+  codium: "VSCodium",
+};
+
+// Default user data directory of the editor behind `cli` (e.g.
+// ~/.config/Code on Linux), as the editor would pick it
+export function defaultUserDataDir(cli: string): string {
+  const name = path.parse(cli.replace(/"/g, "")).name.toLowerCase();
+  const product = PRODUCT_FOLDERS[name] || "Code";
+  switch (process.platform) {
+    case "darwin":
+      return path.join(os.homedir(), "Library", "Application Support", product);
+    case "win32":
+      return path.join(
+        process.env.APPDATA || path.join(os.homedir(), "AppData", "Roaming"),
+        product
+      );
+    default:
+      return path.join(
+        process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+        product
+      );
+  }
+}
+
+// Pick the CLI in an editor's bin folder: the one named like the running
+// app, else code/cursor/codium, else the first one. Returns the quoted path.
+export function pickCLI(binDir: string, appName: string): string | undefined {
+  if (!fs.existsSync(binDir)) {
+    return undefined;
+  }
+  const candidates = fs
+    .readdirSync(binDir)
+    .filter((f) => !f.startsWith(".") && !f.includes("tunnel"));
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const match = candidates.find((f) => {
+    const base = path.parse(f).name.toLowerCase();
+    return appName.toLowerCase().includes(base);
+  });
+  const codeOrCursor = candidates.find((f) => {
+    const name = path.parse(f).name.toLowerCase();
+    return name === "code" || name === "cursor" || name === "codium";
+  });
+  return `"${path.join(binDir, match || codeOrCursor || candidates[0])}"`;
+}
@@ -0,0 +1,213 @@
+import * as crypto from "crypto";
+import * as jsonc from "jsonc-parser";
+import { ExportData } from "./exportFormat.js";
+
+// What an encrypted export hides: only `settings`, or everything but meta
+export type EncryptionScope = "settings" | "file";
+
+// Stored in meta.encryption. The ciphertext itself is the top-level
+// `encrypted` string (base64).
+export interface EncryptionMeta {
+  scope: EncryptionScope;
+  cipher: "aes-256-gcm";
+  kdf: {
+    name: "scrypt";
+    salt: string; // base64
+    N: number;
+    r: number;
+    p: number;
+    keyLength: number;
+  };
+  iv: string; // base64
+  tag: string; // base64, GCM authentication tag
+  check: string; // base64 HMAC of a fixed string, to tell a wrong passphrase from tampering
+}
+
+export class DecryptionError extends Error {
+  constructor(
+    message: string,
+    readonly reason: "passphrase" | "tampered" | "format"
+  ) {
+    super(message);
+  }
+}
+
+// scrypt cost for new files; files with larger parameters are refused so a
+// crafted file cannot make loading use unbounded memory (scrypt needs
+// about 128 * N * r bytes) or time
+const KDF_DEFAULTS = { N: 32768, r: 8, p: 1, keyLength: 32 };
+const KDF_LIMITS = { N: 1048576, r: 16, p: 4 };
+const KDF_MAX_MEMORY = 64 * 1024 * 1024;
+const CHECK_LABEL = "extension-manager passphrase check";
+
+function deriveKey(
+  passphrase: string,
+  kdf: EncryptionMeta["kdf"]
+): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    crypto.scrypt(
+      passphrase.normalize("NFC"),
+      Buffer.from(kdf.salt, "base64"),
+      kdf.keyLength,
+      { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: KDF_MAX_MEMORY + 1048576 },
+      (error, key) => (error ? reject(error) : resolve(key))
+    )
+  );
+}
+
+function keyCheck(key: Buffer): string {
+  return crypto.createHmac("sha256", key).update(CHECK_LABEL).digest("base64");
+}
+
+// JSON with object keys sorted at every level, so the same data always
+// gives the same text
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Authenticated but unencrypted data: the scope and everything stored in
+// the clear except meta.encryption, so none of it can be changed or
+// swapped between files without detection
+function additionalData(scope: EncryptionScope, clear: any): Buffer {
+  const { encryption, ...meta } = clear.meta || {};
+  return Buffer.from(`${scope}\n${canonicalJson({ ...clear, meta })}`);
+}
+
+// Encrypt the settings section or the whole of `data`. The scope and the
+// sections left in the clear are authenticated too.
+export async function encryptExport(
+  data: ExportData,
+  passphrase: string,
+  scope: EncryptionScope
+): Promise<object> {
+  const kdf = {
+    name: "scrypt" as const,
+    salt: crypto.randomBytes(16).toString("base64"),
+    ...KDF_DEFAULTS,
+  };
+  const key = await deriveKey(passphrase, kdf);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+
+  const { settings, ...rest } = data;
+  const { formatVersion, exportedAt, source } = data.meta;
+  const clear =
+    scope === "file" ? { meta: { formatVersion, exportedAt, source } } : rest;
+  cipher.setAAD(additionalData(scope, JSON.parse(JSON.stringify(clear))));
+  const plaintext = JSON.stringify(scope === "file" ? data : settings);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]).toString("base64");
+  const encryption: EncryptionMeta = {
+    scope,
+    cipher: "aes-256-gcm",
+    kdf,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    check: keyCheck(key),
+  };
+
+  return { ...clear, meta: { ...clear.meta, encryption }, encrypted };
+}
+
+// Whether `content` is an export with an encrypted section
+export function isEncryptedExport(content: string): boolean {
+  const data = jsonc.parse(content);
+  return (
+    !!data &&
+    typeof data === "object" &&
+    !!data.meta?.encryption &&
+    typeof data.encrypted === "string"
+  );
+}
+
+function readEncryptionMeta(data: any): EncryptionMeta {
+  const meta = data.meta.encryption;
+  const kdf = meta?.kdf;
+  const number = (value: any, max: number) =>
+    Number.isInteger(value) && value > 0 && value <= max;
+  if (
+    (meta?.scope !== "settings" && meta?.scope !== "file") ||
+    meta.cipher !== "aes-256-gcm" ||
+    kdf?.name !== "scrypt" ||
+    !number(kdf.N, KDF_LIMITS.N) ||
+    !number(kdf.r, KDF_LIMITS.r) ||
+    !number(kdf.p, KDF_LIMITS.p) ||
+    128 * kdf.N * kdf.r > KDF_MAX_MEMORY ||
+    kdf.keyLength !== 32 ||
+    typeof kdf.salt !== "string" ||
+    typeof meta.iv !== "string" ||
+    typeof meta.tag !== "string" ||
+    typeof meta.check !== "string"
+  ) {
+    throw new DecryptionError(
+      "The file's encryption parameters are missing or not supported.",
+      "format"
+    );
+  }
+  return meta;
+}
+
+// Decrypt an encrypted export, returning the plain export as JSON text.
+// Throws a DecryptionError for a wrong passphrase or a modified file.
+export async function decryptExport(
+  content: string,
+  passphrase: string
+): Promise<string> {
+  const data = jsonc.parse(content);
+  const meta = readEncryptionMeta(data);
+  const key = await deriveKey(passphrase, meta.kdf);
+
+  const expected = Buffer.from(meta.check, "base64");
+  const actual = Buffer.from(keyCheck(key), "base64");
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new DecryptionError("Wrong passphrase.", "passphrase");
+  }
+
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(meta.iv, "base64"),
+      { authTagLength: 16 }
+    );
+    const { encrypted, ...clear } = data;
+    decipher.setAAD(additionalData(meta.scope, clear));
+    decipher.setAuthTag(Buffer.from(meta.tag, "base64"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(data.encrypted, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new DecryptionError(
+      "The encrypted data was modified or is corrupt. The passphrase is correct, but the file cannot be trusted.",
+      "tampered"
+    );
+  }
+
+  if (meta.scope === "file") {
+    return plaintext;
+  }
+  const { encrypted, ...rest } = data;
+  const { encryption, ...plainMeta } = data.meta;
+  return JSON.stringify(
+    { ...rest, meta: plainMeta, settings: JSON.parse(plaintext) },
+    null,
+    2
+  );
+}
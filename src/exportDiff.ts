@@ -0,0 +1,169 @@
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { ExportData } from "./exportFormat.js";
+import { deepEqual } from "./settings.js";
+import { compareVersions } from "./versionPolicy.js";
+
+export interface VersionChange {
+  id: string;
+  from: string;
+  to: string;
+}
+
+// Keys or file names that were added, removed or changed
+export interface KeyChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+// What changed between two exports (or snapshots), `before` -> `after`
+export interface ExportDiff {
+  added: ExtensionData[];
+  removed: ExtensionData[];
+  upgraded: VersionChange[];
+  downgraded: VersionChange[];
+  stateChanged: string[]; // Extensions enabled/disabled or moved channel
+  settings: KeyChanges;
+  keybindingsChanged: boolean;
+  snippets: KeyChanges;
+}
+
+function diffKeys(
+  before: { [key: string]: any } = {},
+  after: { [key: string]: any } = {}
+): KeyChanges {
+  const has = (obj: object, key: string) =>
+    Object.prototype.hasOwnProperty.call(obj, key);
+  return {
+    added: Object.keys(after).filter((key) => !has(before, key)),
+    removed: Object.keys(before).filter((key) => !has(after, key)),
+    changed: Object.keys(after).filter(
+      (key) => has(before, key) && !deepEqual(before[key], after[key])
+    ),
+  };
+}
+
+export function diffExports(
+  before: Partial<ExportData>,
+  after: Partial<ExportData>
+): ExportDiff {
+  const beforeById = new Map(
+    (before.extensions || []).map((ext) => [ext.id.toLowerCase(), ext])
+  );
+  const afterById = new Map(
+    (after.extensions || []).map((ext) => [ext.id.toLowerCase(), ext])
+  );
+  const diff: ExportDiff = {
+    added: [],
+    removed: [],
+    upgraded: [],
+    downgraded: [],
+    stateChanged: [],
+    settings: diffKeys(before.settings, after.settings),
+    keybindingsChanged: !deepEqual(
+      before.keybindings || [],
+      after.keybindings || []
+    ),
+    snippets: diffKeys(before.snippets, after.snippets),
+  };
+
+  afterById.forEach((ext, key) => {
+    const old = beforeById.get(key);
+    if (!old) {
+      diff.added.push(ext);
+      return;
+    }
+    if (old.version && ext.version && old.version !== ext.version) {
+      const change = { id: ext.id, from: old.version, to: ext.version };
+      if (compareVersions(ext.version, old.version) > 0) {
+        diff.upgraded.push(change);
+      } else {
+        diff.downgraded.push(change);
+      }
+    }
+    if (
+      !!old.disabled !== !!ext.disabled ||
+      !!old.preRelease !== !!ext.preRelease
+    ) {
+      diff.stateChanged.push(ext.id);
+    }
+  });
+  beforeById.forEach((ext, key) => {
+    if (!afterById.has(key)) {
+      diff.removed.push(ext);
+    }
+  });
+  return diff;
+}
+
+export function isEmptyDiff(diff: ExportDiff): boolean {
+  return summarizeDiff(diff) === "";
+}
+
+// e.g. "2 added, 1 removed, 3 upgraded, 4 settings changed" ("" if nothing
+// changed)
+export function summarizeDiff(diff: ExportDiff): string {
+  const settings =
+    diff.settings.added.length +
+    diff.settings.removed.length +
+    diff.settings.changed.length;
+  const snippets =
+    diff.snippets.added.length +
+    diff.snippets.removed.length +
+    diff.snippets.changed.length;
+  return [
+    diff.added.length > 0 ? `${diff.added.length} added` : "",
+    diff.removed.length > 0 ? `${diff.removed.length} removed` : "",
+    diff.upgraded.length > 0 ? `${diff.upgraded.length} upgraded` : "",
+    diff.downgraded.length > 0 ? `${diff.downgraded.length} downgraded` : "",
+    diff.stateChanged.length > 0
+      ? `${diff.stateChanged.length} enabled/disabled`
+      : "",
+    settings > 0 ? `${settings} settings changed` : "",
+    diff.keybindingsChanged ? "keybindings changed" : "",
+    snippets > 0 ? `${snippets} snippet files changed` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function renderDiffMarkdown(
+  diff: ExportDiff,
+  beforeLabel: string,
+  afterLabel: string
+): string {
+  const lines = [`# ${beforeLabel} → ${afterLabel}`, ""];
+  if (isEmptyDiff(diff)) {
+    lines.push("No differences.");
+    return lines.join("\n") + "\n";
+  }
+  lines.push(summarizeDiff(diff));
+
+  const section = (title: string, entries: string[]) => {
+    if (entries.length > 0) {
+      lines.push("", `## ${title}`, "", ...entries.map((e) => `- ${e}`));
+    }
+  };
+  const versioned = (ext: ExtensionData) =>
+    `\`${ext.id}\`${ext.version ? ` ${ext.version}` : ""}`;
+  const change = (c: VersionChange) => `\`${c.id}\` ${c.from} → ${c.to}`;
+  const code = (key: string) => `\`${key}\``;
+
+  section("Added Extensions", diff.added.map(versioned));
+  section("Removed Extensions", diff.removed.map(versioned));
+  section("Upgraded Extensions", diff.upgraded.map(change));
+  section("Downgraded Extensions", diff.downgraded.map(change));
+  section("Enabled/Disabled or Channel Changed", diff.stateChanged.map(code));
+  section("Added Settings", diff.settings.added.map(code));
+  section("Removed Settings", diff.settings.removed.map(code));
+  section("Changed Settings", diff.settings.changed.map(code));
+  if (diff.keybindingsChanged) {
+    lines.push("", "## Keybindings", "", "keybindings.json changed.");
+  }
+  section("Snippets", [
+    ...diff.snippets.added.map((name) => `${code(name)} added`),
+    ...diff.snippets.removed.map((name) => `${code(name)} removed`),
+    ...diff.snippets.changed.map((name) => `${code(name)} changed`),
+  ]);
+  return lines.join("\n") + "\n";
+}
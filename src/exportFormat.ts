@@ -0,0 +1,52 @@
+import * as os from "os";
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { Keybinding } from "./keybindings.js";
+import { SnippetFiles } from "./snippets.js";
+import { ProfileDefinition } from "./profiles.js";
+
+// Version of the format below, stored in meta.formatVersion. Bump it and add
+// a migration in exportSchema.ts when the format changes.
+export const FORMAT_VERSION = 2;
+
+// Shape of the file written by "Export Extensions"
+export interface ExportData {
+  meta: {
+    formatVersion: number;
+    exportedAt: string;
+    source: string;
+    platform?: string; // process.platform of the exporting machine
+    homeDir?: string; // Home directory of the exporting user, when not redacted
+  };
+  extensions: ExtensionData[];
+  settings: { [key: string]: any };
+  keybindings?: Keybinding[];
+  snippets?: SnippetFiles;
+  profiles?: { [name: string]: ProfileDefinition };
+}
+
+// Export of this machine's profile, shared by the extension and the
+// headless CLI. Empty keybindings and snippets are left out. The home
+// directory is only recorded with `includeHomeDir`, for exports whose paths
+// were not redacted to ${userHome}.
+export function createExportData(
+  source: string,
+  extensions: ExtensionData[],
+  settings: { [key: string]: any },
+  keybindings?: Keybinding[],
+  snippets: SnippetFiles = {},
+  includeHomeDir = false
+): ExportData {
+  return {
+    meta: {
+      formatVersion: FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      source,
+      platform: process.platform,
+      ...(includeHomeDir ? { homeDir: os.homedir() } : {}),
+    },
+    extensions,
+    settings,
+    ...(keybindings ? { keybindings } : {}),
+    ...(Object.keys(snippets).length > 0 ? { snippets } : {}),
+  };
+}
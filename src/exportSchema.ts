@@ -0,0 +1,340 @@
+import * as jsonc from "jsonc-parser";
+import { ExportData, FORMAT_VERSION } from "./exportFormat.js";
+
+type JsonPath = (string | number)[];
+
+export interface SchemaProblem {
+  path: JsonPath; // Location in the file as written (before migration)
+  message: string;
+}
+
+// Format history:
+//   0  bare array of extensions
+//   1  { meta: { exportedAt, source }, extensions, settings, ... }
+//   2  meta.formatVersion added
+// Each migration upgrades a document by one version. Migrations also
+// report how a path in the upgraded document maps back to the original.
+const MIGRATIONS: {
+  [fromVersion: number]: {
+    migrate: (data: any) => any;
+    sourcePath: (path: JsonPath) => JsonPath;
+  };
+} = {
+  0: {
+    migrate: (data) => ({
+      meta: { exportedAt: "", source: "unknown" },
+      extensions: data,
+      settings: {},
+    }),
+    // extensions[3].id was [3].id in the bare array
+    sourcePath: (path) => (path[0] === "extensions" ? path.slice(1) : []),
+  },
+  1: {
+    migrate: (data) => ({
+      ...data,
+      meta: { ...data.meta, formatVersion: 2 },
+    }),
+    sourcePath: (path) => path,
+  },
+};
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Version a document was written with
+export function detectFormatVersion(data: any): number {
+  if (Array.isArray(data)) {
+    return 0;
+  }
+  const version = data?.meta?.formatVersion;
+  return typeof version === "number" ? version : 1;
+}
+
+// Upgrade `data` to FORMAT_VERSION. Throws for files written by a newer
+// version of the extension, which this one cannot read safely.
+export function migrateExport(data: any): {
+  data: any;
+  fromVersion: number;
+  sourcePath: (path: JsonPath) => JsonPath;
+} {
+  const fromVersion = detectFormatVersion(data);
+  if (fromVersion > FORMAT_VERSION) {
+    throw new Error(
+      `The file uses format version ${fromVersion}, but this version of the extension only reads up to ${FORMAT_VERSION}. Please update the extension.`
+    );
+  }
+
+  let migrated = data;
+  const sourcePaths: ((path: JsonPath) => JsonPath)[] = [];
+  for (let version = fromVersion; version < FORMAT_VERSION; version++) {
+    migrated = MIGRATIONS[version].migrate(migrated);
+    sourcePaths.unshift(MIGRATIONS[version].sourcePath);
+  }
+  return {
+    data: migrated,
+    fromVersion,
+    sourcePath: (path) => sourcePaths.reduce((p, map) => map(p), path),
+  };
+}
+
+// publisher.name
+export const EXTENSION_ID = /^[A-Za-z0-9][\w-]*\.[A-Za-z0-9][\w.-]*$/;
+
+// 1.2.3, 1.2.3-beta.1, 1.2.3+build (semver-like; up to four numeric parts)
+export const EXTENSION_VERSION =
+  /^\d+(\.\d+){0,3}(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/;
+
+// Check a migrated document against the current format. Returns the
+// problems and a copy without the parts that failed: invalid extension
+// entries are dropped so they never reach the CLI, invalid optional
+// sections are left out.
+export function validateExport(data: any): {
+  data: ExportData;
+  problems: SchemaProblem[];
+} {
+  const problems: SchemaProblem[] = [];
+  const problem = (path: JsonPath, message: string) =>
+    problems.push({ path, message });
+
+  if (!isObject(data)) {
+    problem([], "Expected an object with an `extensions` array");
+    return {
+      data: {
+        meta: { formatVersion: FORMAT_VERSION, exportedAt: "", source: "" },
+        extensions: [],
+        settings: {},
+      },
+      problems,
+    };
+  }
+
+  // meta
+  const meta = isObject(data.meta) ? data.meta : {};
+  if (!isObject(data.meta)) {
+    problem(["meta"], "Expected an object");
+  }
+  (["exportedAt", "source", "platform", "homeDir"] as const).forEach((key) => {
+    if (key in meta && typeof meta[key] !== "string") {
+      problem(["meta", key], "Expected a string");
+    }
+  });
+
+  // extensions
+  const extensions: any[] = [];
+  if (!Array.isArray(data.extensions)) {
+    problem(["extensions"], "Expected an array of extensions");
+  } else {
+    const seen = new Set<string>();
+    data.extensions.forEach((entry: any, i: number) => {
+      const path = ["extensions", i];
+      if (!isObject(entry)) {
+        problem(path, "Expected an object with an `id`");
+        return;
+      }
+      if (typeof entry.id !== "string") {
+        problem([...path, "id"], "Missing extension ID");
+        return;
+      }
+      if (!EXTENSION_ID.test(entry.id)) {
+        problem([...path, "id"], `"${entry.id}" is not a publisher.name ID`);
+        return;
+      }
+      let valid = true;
+      ["version", "displayName", "description", "publisher", "vsix"].forEach(
+        (key) => {
+          if (key in entry && typeof entry[key] !== "string") {
+            problem([...path, key], "Expected a string");
+            valid = valid && key !== "version" && key !== "vsix";
+          }
+        }
+      );
+      if (
+        typeof entry.version === "string" &&
+        !EXTENSION_VERSION.test(entry.version)
+      ) {
+        problem([...path, "version"], `"${entry.version}" is not a version`);
+        valid = false;
+      }
+      ["disabled", "preRelease"].forEach((key) => {
+        if (key in entry && typeof entry[key] !== "boolean") {
+          problem([...path, key], "Expected true or false");
+        }
+      });
+      if (seen.has(entry.id.toLowerCase())) {
+        problem([...path, "id"], `Duplicate extension ${entry.id}`);
+        valid = false;
+      }
+      seen.add(entry.id.toLowerCase());
+      if (valid) {
+        extensions.push(entry);
+      }
+    });
+  }
+
+  const result: ExportData = {
+    meta: { ...meta, formatVersion: FORMAT_VERSION },
+    extensions,
+    settings: {},
+  };
+
+  // settings
+  if ("settings" in data) {
+    if (isObject(data.settings)) {
+      result.settings = data.settings;
+    } else {
+      problem(["settings"], "Expected an object of settings");
+    }
+  }
+
+  // keybindings
+  if ("keybindings" in data) {
+    if (!Array.isArray(data.keybindings)) {
+      problem(["keybindings"], "Expected an array of keybindings");
+    } else {
+      result.keybindings = data.keybindings.filter(
+        (binding: any, i: number) => {
+          const valid =
+            isObject(binding) &&
+            typeof binding.key === "string" &&
+            typeof binding.command === "string";
+          if (!valid) {
+            problem(
+              ["keybindings", i],
+              "Expected an object with `key` and `command` strings"
+            );
+          }
+          return valid;
+        }
+      );
+    }
+  }
+
+  // snippets
+  if ("snippets" in data) {
+    if (!isObject(data.snippets)) {
+      problem(["snippets"], "Expected an object of snippet files");
+    } else {
+      result.snippets = {};
+      Object.keys(data.snippets).forEach((name) => {
+        if (typeof data.snippets[name] === "string") {
+          result.snippets![name] = data.snippets[name];
+        } else {
+          problem(["snippets", name], "Expected the file content as a string");
+        }
+      });
+    }
+  }
+
+  // profiles
+  if ("profiles" in data) {
+    if (!isObject(data.profiles)) {
+      problem(["profiles"], "Expected an object of named profiles");
+    } else {
+      result.profiles = {};
+      const names = Object.keys(data.profiles);
+      names.forEach((name) => {
+        const profile = data.profiles[name];
+        const path = ["profiles", name];
+        const before = problems.length;
+        if (!isObject(profile)) {
+          problem(path, "Expected an object");
+          return;
+        }
+        const inherits =
+          typeof profile.inherits === "string"
+            ? [profile.inherits]
+            : profile.inherits;
+        if ("inherits" in profile) {
+          if (
+            !Array.isArray(inherits) ||
+            !inherits.every((p: any) => typeof p === "string")
+          ) {
+            problem(
+              [...path, "inherits"],
+              "Expected a profile name or a list of names"
+            );
+          } else {
+            inherits
+              .filter((parent: string) => !names.includes(parent))
+              .forEach((parent: string) =>
+                problem([...path, "inherits"], `Unknown profile "${parent}"`)
+              );
+          }
+        }
+        if ("extensions" in profile && !Array.isArray(profile.extensions)) {
+          problem([...path, "extensions"], "Expected a list of extension IDs");
+        }
+        if ("settings" in profile && !isObject(profile.settings)) {
+          problem([...path, "settings"], "Expected an object of settings");
+        }
+        if (problems.length === before) {
+          // Invalid IDs are dropped; the rest of the profile stays usable
+          result.profiles![name] = Array.isArray(profile.extensions)
+            ? {
+                ...profile,
+                extensions: profile.extensions.filter((id: any, i: number) => {
+                  const valid = typeof id === "string" && EXTENSION_ID.test(id);
+                  if (!valid) {
+                    problem(
+                      [...path, "extensions", i],
+                      `${JSON.stringify(id)} is not a publisher.name ID`
+                    );
+                  }
+                  return valid;
+                }),
+              }
+            : profile;
+        }
+      });
+      // Profiles inheriting from a dropped profile cannot be resolved either
+      let dropped = true;
+      while (dropped) {
+        dropped = false;
+        Object.keys(result.profiles).forEach((name) => {
+          const inherits = result.profiles![name].inherits;
+          const parents =
+            typeof inherits === "string" ? [inherits] : inherits || [];
+          if (parents.some((parent) => !(parent in result.profiles!))) {
+            problem(
+              ["profiles", name, "inherits"],
+              "Inherits an invalid profile"
+            );
+            delete result.profiles![name];
+            dropped = true;
+          }
+        });
+      }
+    }
+  }
+
+  return { data: result, problems };
+}
+
+// 1-based line and column of `path` in `content`, falling back to the
+// closest existing parent when the path itself is missing
+export function locatePath(
+  content: string,
+  path: JsonPath
+): { line: number; column: number } {
+  const root = jsonc.parseTree(content);
+  let node: jsonc.Node | undefined;
+  for (let length = path.length; root && !node && length >= 0; length--) {
+    node = jsonc.findNodeAtLocation(root, path.slice(0, length));
+  }
+  // Point at the property name rather than its value
+  const offset =
+    node?.parent?.type === "property" ? node.parent.offset : node?.offset || 0;
+  const before = content.substring(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// Readable form of a path, e.g. extensions[3].id
+export function formatPath(path: JsonPath): string {
+  return (
+    path
+      .map((part) => (typeof part === "number" ? `[${part}]` : `.${part}`))
+      .join("")
+      .replace(/^\./, "") || "(root)"
+  );
+}
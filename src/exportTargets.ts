@@ -0,0 +1,154 @@
+import { VersionPolicy } from "./versionPolicy.js";
+import { EXTENSION_ID, EXTENSION_VERSION } from "./exportSchema.js";
+
+// Formats "Export Install Script" can write besides the JSON export
+export enum ExportTarget {
+  Shell = "shell",
+  PowerShell = "powershell",
+  Devcontainer = "devcontainer",
+  Dockerfile = "dockerfile",
+}
+
+export const EXPORT_TARGETS: {
+  target: ExportTarget;
+  label: string;
+  description: string;
+  fileName: string; // Suggested file name
+  filters: { [name: string]: string[] };
+}[] = [
+  {
+    target: ExportTarget.Shell,
+    label: "POSIX Shell Script",
+    description: "install-extensions.sh",
+    fileName: "install-extensions.sh",
+    filters: { "Shell script": ["sh"] },
+  },
+  {
+    target: ExportTarget.PowerShell,
+    label: "PowerShell Script",
+    description: "install-extensions.ps1",
+    fileName: "install-extensions.ps1",
+    filters: { PowerShell: ["ps1"] },
+  },
+  {
+    target: ExportTarget.Devcontainer,
+    label: "devcontainer.json Block",
+    description: "customizations.vscode.extensions",
+    fileName: "devcontainer.extensions.json",
+    filters: { JSON: ["json", "jsonc"] },
+  },
+  {
+    target: ExportTarget.Dockerfile,
+    label: "Dockerfile RUN Snippet",
+    description: "RUN <cli> --install-extension ...",
+    fileName: "Dockerfile.extensions",
+    filters: { "All files": ["*"] },
+  },
+];
+
+export interface ScriptExtension {
+  id: string;
+  version?: string;
+  policy: VersionPolicy; // Only "exact" pins the version
+}
+
+// CLI names scripts may call; anything else falls back to "code"
+export const SCRIPT_CLI_NAMES = ["code", "cursor", "codium"];
+
+// "id@version" for pinned extensions, the bare ID otherwise (the CLI has no
+// way to express a minimum version). Throws for an ID or version that could
+// not have come from the marketplace.
+function installSpec(extension: ScriptExtension): string {
+  if (!EXTENSION_ID.test(extension.id)) {
+    throw new Error(`"${extension.id}" is not a publisher.name extension ID`);
+  }
+  if (extension.policy !== VersionPolicy.Exact || !extension.version) {
+    return extension.id;
+  }
+  if (!EXTENSION_VERSION.test(extension.version)) {
+    throw new Error(
+      `"${extension.version}" is not a valid version of ${extension.id}`
+    );
+  }
+  return `${extension.id}@${extension.version}`;
+}
+
+// Quote `value` for a POSIX shell (also Dockerfile RUN lines) or
+// PowerShell. Plain specs are left as they are, so scripts stay readable
+// and can be loaded back.
+function quoteFor(target: ExportTarget, value: string): string {
+  if (/^[\w@+.-]+$/.test(value)) {
+    return value;
+  }
+  return target === ExportTarget.PowerShell
+    ? `'${value.replace(/'/g, "''")}'`
+    : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Render `extensions` in the format of `target`. `cli` is the editor CLI
+// the scripts call by default.
+export function renderExportTarget(
+  target: ExportTarget,
+  extensions: ScriptExtension[],
+  cli: string,
+  generatedAt: string = new Date().toISOString()
+): string {
+  const specs = extensions.map(installSpec);
+  const header = `Generated by Extension Manager on ${generatedAt} (${specs.length} extensions)`;
+
+  switch (target) {
+    // One line per extension, so "Load Extensions File" can read scripts back
+    case ExportTarget.Shell:
+      return [
+        "#!/bin/sh",
+        `# ${header}`,
+        `# Set CLI to use another editor, e.g. CLI=codium ./install-extensions.sh`,
+        "set -e",
+        "",
+        `CLI="\${CLI:-${cli}}"`,
+        "",
+        ...specs.map(
+          (spec) =>
+            `"$CLI" --install-extension ${quoteFor(target, spec)} --force`
+        ),
+        "",
+      ].join("\n");
+
+    case ExportTarget.PowerShell:
+      return [
+        `# ${header}`,
+        `# Set $env:CLI to use another editor, e.g. $env:CLI = "codium"`,
+        `$cli = if ($env:CLI) { $env:CLI } else { "${cli}" }`,
+        "",
+        ...specs.map(
+          (spec) =>
+            `& $cli --install-extension ${quoteFor(
+              target,
+              spec
+            )} --force; if ($LASTEXITCODE -ne 0) { exit $LASTEXITCODE }`
+        ),
+        "",
+      ].join("\r\n");
+
+    case ExportTarget.Devcontainer:
+      // Merge into devcontainer.json; the file allows comments
+      return `// ${header}\n${JSON.stringify(
+        { customizations: { vscode: { extensions: specs } } },
+        null,
+        2
+      )}\n`;
+
+    case ExportTarget.Dockerfile:
+      return [
+        `# ${header}`,
+        ...specs.map(
+          (spec, i) =>
+            `${i === 0 ? "RUN" : "   &&"} ${cli} --install-extension ${quoteFor(
+              target,
+              spec
+            )} --force${i === specs.length - 1 ? "" : " \\"}`
+        ),
+        "",
+      ].join("\n");
+  }
+}
@@ -2,16 +2,140 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import * as cp from "child_process";
+import * as os from "os";
 import {
   ExtensionTreeProvider,
   ExtensionItem,
   ExtensionStatus,
   ExtensionData,
+  GroupItem,
 } from "./ExtensionTreeProvider.js";
+import { pickCLI, userFiles } from "./editorPaths.js";
+import {
+  ExtensionHost,
+  Installer,
+  InstallerBackend,
+  InstallerResult,
+  createCliBackend,
+  createDryRunBackend,
+  routeInstaller,
+} from "./installers.js";
+import { ReportRunItem, ReportTreeProvider } from "./ReportTreeProvider.js";
+import { SnapshotItem, SnapshotTreeProvider } from "./SnapshotTreeProvider.js";
 import * as jsonc from "jsonc-parser";
-
-// Global tree provider instance
+import {
+  Keybinding,
+  mergeKeybindings,
+  parseKeybindings,
+} from "./keybindings.js";
+import { readSnippetFiles, uniqueSnippetName } from "./snippets.js";
+import { ExportData, createExportData } from "./exportFormat.js";
+import {
+  ResolvedProfile,
+  combineProfiles,
+  resolveProfiles,
+} from "./profiles.js";
+import {
+  BUNDLE_MANIFEST,
+  packageInstalledExtension,
+  resolveLocalPackage,
+} from "./offlineBundle.js";
+import {
+  RECOMMENDATIONS_FILE,
+  mergeRecommendations,
+  parseRecommendations,
+} from "./workspaceRecommendations.js";
+import { ImportResult, importExtensionList } from "./importers.js";
+import { Availability, checkAvailability } from "./registry.js";
+import {
+  SettingRewrite,
+  TranslationRule,
+  translateSettings,
+} from "./platformSettings.js";
+import {
+  ManifestEntry,
+  isPreRelease,
+  readExtensionsManifest,
+  readPackageDetails,
+} from "./extensionState.js";
+import {
+  TreeGrouping,
+  TreeSort,
+  TreeViewState,
+  normalizeViewState,
+} from "./treeFilter.js";
+import {
+  EXPORT_TARGETS,
+  SCRIPT_CLI_NAMES,
+  ScriptExtension,
+  renderExportTarget,
+} from "./exportTargets.js";
+import {
+  SettingsBackup,
+  buildSettingsContent,
+  createSettingsBackup,
+  parseSettings,
+} from "./settings.js";
+import {
+  killProcessTree,
+  runCommand,
+  runQueue,
+  withRetries,
+} from "./installQueue.js";
+import {
+  InstallReport,
+  loadReports,
+  renderReportMarkdown,
+  saveReport,
+  startReport,
+  summarizeReport,
+} from "./installReport.js";
+import {
+  applyRedactions,
+  buildRedactionRules,
+  findRedactions,
+  resolvePlaceholders,
+} from "./redaction.js";
+import {
+  InstallPlan,
+  VersionPolicy,
+  parseVersionPolicy,
+  planInstall,
+  usePreRelease,
+} from "./versionPolicy.js";
+import {
+  SnapshotInfo,
+  SnapshotRetention,
+  listSnapshots,
+  readSnapshot,
+  saveSnapshot,
+} from "./snapshots.js";
+import {
+  ExportDiff,
+  diffExports,
+  renderDiffMarkdown,
+  summarizeDiff,
+} from "./exportDiff.js";
+import {
+  DecryptionError,
+  EncryptionScope,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+} from "./encryption.js";
+import {
+  GitEncryption,
+  GitSyncTarget,
+  commitExport,
+  isTargetEncrypted,
+  pullExport,
+  runGitCommand,
+} from "./gitSync.js";
+
+// Global tree provider instances
 let extensionTreeProvider: ExtensionTreeProvider;
+let reportTreeProvider: ReportTreeProvider;
+let snapshotTreeProvider: SnapshotTreeProvider;
 
 // Helper function to get CLI path
 function getCLIPath(): string {
@@ -21,77 +145,465 @@ function getCLIPath(): string {
 
   if (cliCommand === "auto") {
     try {
-      const appRoot = vscode.env.appRoot;
-      const binDir = path.join(appRoot, "bin");
+      cliPath =
+        pickCLI(
+          path.join(vscode.env.appRoot, "bin"),
+          vscode.env.appName || ""
+        ) || cliPath;
+    } catch (e) {
+      console.error("Failed to resolve CLI path:", e);
+    }
+  }
+  return cliPath;
+}
 
-      if (fs.existsSync(binDir)) {
-        const files = fs.readdirSync(binDir);
-        const appName = vscode.env.appName || "";
+// Helper function to get the bare CLI name generated scripts call
+function getScriptCLIName(): string {
+  const name = path.parse(getCLIPath().replace(/"/g, "")).name.toLowerCase();
+  return SCRIPT_CLI_NAMES.includes(name) ? name : "code";
+}
 
-        let bestMatch = "";
-        const candidates = files.filter(
-          (f) => !f.startsWith(".") && !f.includes("tunnel")
-        );
+// Helper function to get the registry checked before installs ("" = none)
+function getRegistryUrl(): string {
+  const config = vscode.workspace.getConfiguration("extensionManager.registry");
+  return (config.get<string>("url") || "").trim();
+}
 
-        if (candidates.length > 0) {
-          const match = candidates.find((f) => {
-            const base = path.parse(f).name.toLowerCase();
-            return appName.toLowerCase().includes(base);
-          });
+// Helper function to rewrite settings exported on another machine (see
+// `meta.platform` / `meta.homeDir`) for this one
+function translateForThisPlatform(
+  settings: { [key: string]: any },
+  meta: ExportData["meta"] | undefined
+): { settings: { [key: string]: any }; rewrites: SettingRewrite[] } {
+  const config = vscode.workspace.getConfiguration(
+    "extensionManager.settingsTranslation"
+  );
+  if (!config.get<boolean>("enabled", true)) {
+    return { settings, rewrites: [] };
+  }
+  return translateSettings(
+    settings,
+    { platform: meta?.platform, homeDir: meta?.homeDir },
+    { platform: process.platform, homeDir: os.homedir() },
+    config.get<TranslationRule[]>("rules", []),
+    (rule) =>
+      vscode.window.showWarningMessage(
+        `Ignoring invalid settings translation rule: ${rule.from}`
+      )
+  );
+}
 
-          if (match) {
-            bestMatch = match;
-          } else {
-            const codeOrCursor = candidates.find((f) => {
-              const name = path.parse(f).name.toLowerCase();
-              return name === "code" || name === "cursor" || name === "codium";
-            });
-            bestMatch = codeOrCursor || candidates[0];
-          }
+// Helper function to get the global version policy
+function getVersionPolicy(): VersionPolicy {
+  const config = vscode.workspace.getConfiguration("extensionManager");
+  return parseVersionPolicy(config.get<string>("versionPolicy"));
+}
 
-          if (bestMatch) {
-            cliPath = `"${path.join(binDir, bestMatch)}"`;
-          }
-        }
+// Helper function to get the version of an installed extension
+function getInstalledVersion(extensionId: string): string | undefined {
+  return (
+    vscode.extensions.getExtension(extensionId)?.packageJSON.version ??
+    getDisabledExtensions().find(
+      (entry) => entry.id.toLowerCase() === extensionId.toLowerCase()
+    )?.version
+  );
+}
+
+// Helper function to find the folder user extensions are installed in
+function getExtensionsDir(): string | undefined {
+  const userExtension = vscode.extensions.all.find(
+    (ext) =>
+      !ext.packageJSON.isBuiltin &&
+      fs.existsSync(
+        path.join(path.dirname(ext.extensionPath), "extensions.json")
+      )
+  );
+  return userExtension && path.dirname(userExtension.extensionPath);
+}
+
+// Helper function to list installed extensions the editor has not loaded,
+// which are the disabled ones (vscode.extensions only lists enabled ones)
+function getDisabledExtensions(): ManifestEntry[] {
+  const extensionsDir = getExtensionsDir();
+  if (!extensionsDir) {
+    return [];
+  }
+  return readExtensionsManifest(extensionsDir).filter(
+    (entry) => !vscode.extensions.getExtension(entry.id)
+  );
+}
+
+// Helper function to list user-installed extensions in export format
+function getInstalledExtensionData(): ExtensionData[] {
+  const extensions = vscode.extensions.all;
+  return extensions
+    .filter((ext) => {
+      const isSystem =
+        ext.packageJSON.isBuiltin ||
+        ext.id.startsWith("vscode.") ||
+        ext.id.startsWith("ms-vscode.") ||
+        ext.id.toLowerCase().includes("cursor");
+
+      return (
+        !ext.id.startsWith("vscode.") &&
+        !ext.id.startsWith("ms-vscode.js-debug") &&
+        !ext.id.startsWith("ms-vscode.references-view")
+      );
+    })
+    .map(
+      (ext): ExtensionData => ({
+        id: ext.id,
+        version: ext.packageJSON.version,
+        displayName: ext.packageJSON.displayName,
+        publisher: ext.packageJSON.publisher,
+        description: ext.packageJSON.description,
+        // Only recorded when set, so files stay unchanged otherwise
+        preRelease: isPreRelease(ext.packageJSON.__metadata) || undefined,
+      })
+    )
+    .concat(
+      getDisabledExtensions().map((entry) => ({
+        id: entry.id,
+        version: entry.version,
+        ...readPackageDetails(entry.location),
+        disabled: true,
+        preRelease: entry.preRelease || undefined,
+      }))
+    );
+}
+
+// Files accepted by Load File and Import Extensions
+const EXTENSION_LIST_FILTERS = {
+  "Extension lists": ["json", "jsonc", "txt", "sh", "ps1", "bat", "cmd"],
+  "All files": ["*"],
+};
+
+// Helper function to report lines an importer could not read and schema
+// problems (those entries are left out of the result)
+function reportUnparsedLines(result: ImportResult, fileName: string) {
+  if (result.unparsed.length === 0) {
+    return;
+  }
+  const outputChannel = vscode.window.createOutputChannel("Extension Manager");
+  outputChannel.appendLine(
+    `Read ${fileName} as ${result.format}. ${result.unparsed.length} problems:`
+  );
+  result.unparsed.forEach((entry) =>
+    outputChannel.appendLine(
+      `  ${fileName}:${entry.line}${
+        entry.column ? `:${entry.column}` : ""
+      }: ${entry.text.trim()}: ${entry.reason}`
+    )
+  );
+  vscode.window
+    .showWarningMessage(
+      `${result.unparsed.length} problems reading ${fileName}; affected entries were skipped.`,
+      "Show Details"
+    )
+    .then((choice) => {
+      if (choice) {
+        outputChannel.show();
       }
-    } catch (e) {
-      console.error("Failed to resolve CLI path:", e);
+    });
+}
+
+// Helper function to append extensions that only profiles mention
+function addProfileExtensions(
+  extensions: ExtensionData[],
+  profiles: ResolvedProfile[]
+) {
+  const known = new Set(extensions.map((e) => e.id.toLowerCase()));
+  profiles.forEach((profile) =>
+    profile.extensions.forEach((id) => {
+      if (!known.has(id.toLowerCase())) {
+        known.add(id.toLowerCase());
+        extensions.push({ id });
+      }
+    })
+  );
+}
+
+// Settings shared by every CLI call of one install run
+interface InstallRunOptions {
+  concurrency: number;
+  retries: number;
+  retryDelayMs: number;
+  timeoutMs: number;
+  processes: Set<cp.ChildProcess>; // Running CLI calls
+  isCancelled: () => boolean;
+}
+
+// Helper function to read the install settings. Cancelling `token` kills
+// every CLI call still running.
+function getInstallRunOptions(
+  token?: vscode.CancellationToken
+): InstallRunOptions {
+  const config = vscode.workspace.getConfiguration("extensionManager.install");
+  const processes = new Set<cp.ChildProcess>();
+  token?.onCancellationRequested(() => processes.forEach(killProcessTree));
+  return {
+    concurrency: Math.max(1, config.get<number>("concurrency", 4)),
+    retries: Math.max(0, config.get<number>("retries", 2)),
+    retryDelayMs:
+      Math.max(0, config.get<number>("retryDelaySeconds", 2)) * 1000,
+    timeoutMs: Math.max(0, config.get<number>("timeoutSeconds", 300)) * 1000,
+    processes,
+    isCancelled: () => !!token?.isCancellationRequested,
+  };
+}
+
+// Helper function to run one CLI call with the run's timeout and retries
+async function runCLI(
+  command: string[],
+  label: string,
+  outputChannel: vscode.OutputChannel,
+  run: InstallRunOptions
+): Promise<{ success: boolean; error?: string; stderr?: string }> {
+  const result = await withRetries(
+    () =>
+      runCommand(command, {
+        timeoutMs: run.timeoutMs,
+        processes: run.processes,
+      }),
+    run.retries,
+    run.retryDelayMs,
+    run.isCancelled,
+    (attempt, delayMs, error) =>
+      outputChannel.appendLine(
+        `Transient failure for ${label} (${
+          error?.split("\n")[0]
+        }). Retry ${attempt}/${run.retries} in ${delayMs / 1000}s...`
+      )
+  );
+  if (result.success) {
+    if (result.stdout) outputChannel.appendLine(result.stdout);
+  } else {
+    outputChannel.appendLine(`Error for ${label}: ${result.error}`);
+    if (result.stderr) outputChannel.appendLine(`Stderr: ${result.stderr}`);
+  }
+  return {
+    success: result.success,
+    error: result.error,
+    stderr: result.stderr,
+  };
+}
+
+// Helper function to tell which host of a remote window an extension
+// belongs on: `remote.extensionKind` first, then the installed copy's kind.
+// Extensions not installed yet default to the remote (workspace) side.
+function getExtensionHost(extensionId: string): ExtensionHost {
+  if (!vscode.env.remoteName) {
+    return ExtensionHost.Local;
+  }
+  const overrides =
+    vscode.workspace
+      .getConfiguration("remote")
+      .get<{ [id: string]: string[] }>("extensionKind") || {};
+  const override = Object.keys(overrides).find(
+    (id) => id.toLowerCase() === extensionId.toLowerCase()
+  );
+  if (override && overrides[override].length > 0) {
+    return overrides[override][0] === "ui"
+      ? ExtensionHost.Local
+      : ExtensionHost.Remote;
+  }
+  const installed = vscode.extensions.getExtension(extensionId);
+  return installed?.extensionKind === vscode.ExtensionKind.UI
+    ? ExtensionHost.Local
+    : ExtensionHost.Remote;
+}
+
+// Helper function to create the backend using the editor's own extension
+// commands. The workbench installs into the local or remote host itself.
+function createCommandsBackend(): InstallerBackend {
+  const call = async (command: string, arg: any, options?: any) => {
+    try {
+      await vscode.commands.executeCommand(command, arg, options);
+      return { success: true };
+    } catch (e: any) {
+      return { success: false, error: e?.message || String(e) };
     }
+  };
+  return {
+    name: "commands",
+    label: "editor extensions API",
+    hosts: [ExtensionHost.Local, ExtensionHost.Remote],
+    install: (request) =>
+      call(
+        "workbench.extensions.installExtension",
+        request.localPackage
+          ? vscode.Uri.file(request.localPackage)
+          : request.spec,
+        { installPreReleaseVersion: request.preRelease }
+      ),
+    uninstall: (extensionId) =>
+      call("workbench.extensions.uninstallExtension", extensionId),
+  };
+}
+
+// Helper function to build the installer for one run from
+// extensionManager.installer.*. Extensions the chosen backend cannot reach
+// (UI extensions in a remote window, for the CLI) go through the editor's
+// extension commands instead.
+function getInstaller(
+  outputChannel: vscode.OutputChannel,
+  run: InstallRunOptions = getInstallRunOptions()
+): Installer {
+  const config = vscode.workspace.getConfiguration(
+    "extensionManager.installer"
+  );
+  const userDataDir = config.get<string>("userDataDir") || undefined;
+  const extensionsDir = config.get<string>("extensionsDir") || undefined;
+  const commands = createCommandsBackend();
+
+  let backend = config.get<string>("backend") || "auto";
+  if (backend === "auto") {
+    // The CLI next to a remote extension host cannot reach the local side
+    backend =
+      vscode.env.remoteName && !userDataDir && !extensionsDir
+        ? "commands"
+        : "cli";
   }
-  return cliPath;
+
+  const log = (line: string) => outputChannel.appendLine(line);
+  let primary: InstallerBackend;
+  switch (backend) {
+    case "commands":
+      primary = commands;
+      break;
+    case "dryRun":
+      primary = createDryRunBackend(log);
+      break;
+    default:
+      // This extension runs next to the workspace, so in a remote window
+      // its CLI calls happen on the remote host
+      primary = createCliBackend(
+        { command: getCLIPath(), userDataDir, extensionsDir },
+        vscode.env.remoteName ? ExtensionHost.Remote : ExtensionHost.Local,
+        (command, label) => runCLI(command, label, outputChannel, run)
+      );
+  }
+  return routeInstaller(primary, commands, log);
 }
 
-// Helper function to install a single extension
+// Helper function to install a single extension as planned by planInstall
 async function installExtension(
-  extensionId: string,
-  cliPath: string,
-  outputChannel: vscode.OutputChannel
-): Promise<{ success: boolean; error?: string }> {
-  return new Promise((resolve) => {
-    const command = `${cliPath} --install-extension ${extensionId}`;
-    cp.exec(command, (error, stdout, stderr) => {
-      if (error) {
-        outputChannel.appendLine(
-          `Error installing ${extensionId}: ${error.message}`
+  installer: Installer,
+  extension: ExtensionData,
+  plan: InstallPlan,
+  localPackage?: string
+): Promise<InstallerResult> {
+  return installer.install(
+    {
+      extensionId: extension.id,
+      spec: plan.spec,
+      force: plan.force,
+      preRelease: usePreRelease(extension, plan.spec),
+      localPackage,
+    },
+    getExtensionHost(extension.id)
+  );
+}
+
+// Helper function to hand extensions that were disabled in the file over
+// to the user. There is no API to disable an extension, so the Extensions
+// view is opened with them listed.
+function offerToDisable(extensions: ExtensionData[]) {
+  if (extensions.length === 0) {
+    return;
+  }
+  vscode.window
+    .showInformationMessage(
+      `${extensions.length} extensions were disabled in the file. Disable them in the Extensions view to match.`,
+      "Show Extensions"
+    )
+    .then((choice) => {
+      if (choice) {
+        vscode.commands.executeCommand(
+          "workbench.extensions.action.showExtensionsWithIds",
+          extensions.map((ext) => ext.id)
         );
-        if (stderr) outputChannel.appendLine(`Stderr: ${stderr}`);
-        resolve({ success: false, error: error.message });
-      } else {
-        if (stdout) outputChannel.appendLine(stdout);
-        resolve({ success: true });
       }
     });
-  });
+}
+
+// Helper function to uninstall a single extension
+async function uninstallExtension(
+  installer: Installer,
+  extensionId: string
+): Promise<InstallerResult> {
+  return installer.uninstall(extensionId, getExtensionHost(extensionId));
+}
+
+// Helper function to get the IDs sync must never remove (lower-cased)
+function getSyncAllowList(): Set<string> {
+  const config = vscode.workspace.getConfiguration("extensionManager");
+  const allowList = config.get<string[]>("syncAllowList") || [];
+  return new Set(allowList.map((id) => id.toLowerCase()));
 }
 
 export function activate(context: vscode.ExtensionContext) {
   // Initialize TreeDataProvider
-  extensionTreeProvider = new ExtensionTreeProvider();
+  extensionTreeProvider = new ExtensionTreeProvider(
+    (id) => vscode.extensions.getExtension(id)?.packageJSON.categories || [],
+    () => parseSettings(readSettingsContent())
+  );
   const treeView = vscode.window.createTreeView("extensionManagerView", {
     treeDataProvider: extensionTreeProvider,
     manageCheckboxStateManually: true,
   });
 
+  // Past installation runs, read from global storage
+  reportTreeProvider = new ReportTreeProvider(() =>
+    loadReports(getReportsDir())
+  );
+  const reportView = vscode.window.createTreeView("extensionManagerReports", {
+    treeDataProvider: reportTreeProvider,
+  });
+
+  // Snapshots of this machine's setup (see extensionManager.snapshots.*)
+  snapshotTreeProvider = new SnapshotTreeProvider(() =>
+    listSnapshots(getSnapshotsDir())
+  );
+  const snapshotView = vscode.window.createTreeView(
+    "extensionManagerSnapshots",
+    { treeDataProvider: snapshotTreeProvider, canSelectMany: true }
+  );
+
+  // Restore the filter, grouping and sort of the last session
+  extensionTreeProvider.setViewState(
+    normalizeViewState(context.globalState.get("treeViewState"))
+  );
+  updateViewDescription();
+  extensionTreeProvider.onDidChangeTreeData(() => updateViewDescription());
+
+  // Helper to show the active filter in the view's title bar
+  function updateViewDescription() {
+    const { filter } = extensionTreeProvider.getViewState();
+    const { visible, total } = extensionTreeProvider.getFilterCounts();
+    treeView.description = filter
+      ? `"${filter}" · ${visible} of ${total}`
+      : undefined;
+    treeView.message =
+      filter && total > 0 && visible === 0
+        ? `No extensions match "${filter}".`
+        : undefined;
+    vscode.commands.executeCommand(
+      "setContext",
+      "extensionManager.filtered",
+      !!filter
+    );
+  }
+
+  // Helper to apply and remember a change of filter, grouping or sort
+  function updateViewState(change: Partial<TreeViewState>) {
+    extensionTreeProvider.setViewState(change);
+    context.globalState.update(
+      "treeViewState",
+      extensionTreeProvider.getViewState()
+    );
+  }
+
   // Handle checkbox changes
   treeView.onDidChangeCheckboxState((e) => {
     e.items.forEach(([item, state]) => {
@@ -130,6 +642,480 @@ export function activate(context: vscode.ExtensionContext) {
     return settingsPath;
   }
 
+  // Helper to get keybindings path (same User directory as settings.json)
+  function getKeybindingsPath(): string {
+    return userFiles(path.dirname(getSettingsPath())).keybindings;
+  }
+
+  // Helper to read the current settings.json content ("" if missing)
+  function readSettingsContent(): string {
+    const settingsPath = getSettingsPath();
+    return fs.existsSync(settingsPath)
+      ? fs.readFileSync(settingsPath, "utf8")
+      : "";
+  }
+
+  // Helper to compute settings.json with the checked keys applied
+  function buildProposedSettings(
+    selected: {
+      [key: string]: any;
+    } = extensionTreeProvider.getSelectedSettings()
+  ): string {
+    return buildSettingsContent(readSettingsContent(), selected);
+  }
+
+  // Helper to back up settings.json and record the backup in global state
+  function backupSettings(): SettingsBackup | undefined {
+    const backup = createSettingsBackup(
+      getSettingsPath(),
+      path.join(context.globalStorageUri.fsPath, "settings-backups")
+    );
+    if (backup) {
+      const backups = context.globalState.get<SettingsBackup[]>(
+        "settingsBackups",
+        []
+      );
+      context.globalState.update("settingsBackups", [...backups, backup]);
+    }
+    return backup;
+  }
+
+  // Helper to install extension items (several at once, see
+  // extensionManager.install.*), recording each result in `report`
+  async function installExtensionItems(
+    extensionItems: ExtensionItem[],
+    installer: Installer,
+    outputChannel: vscode.OutputChannel,
+    run: InstallRunOptions,
+    report: InstallReport,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ) {
+    const globalPolicy = getVersionPolicy();
+    const total = extensionItems.length;
+    let doneCount = 0;
+
+    await runQueue(
+      extensionItems,
+      run.concurrency,
+      async (ext) => {
+        const extensionId = ext.extensionData.id;
+        const started = Date.now();
+        let plan: InstallPlan;
+        try {
+          plan = planInstall(
+            extensionId,
+            ext.extensionData.version,
+            getInstalledVersion(extensionId),
+            ext.versionPolicy || globalPolicy,
+            ext.localPackage
+          );
+        } catch (error: any) {
+          extensionTreeProvider.updateExtensionStatus(
+            extensionId,
+            ExtensionStatus.Failed,
+            error.message
+          );
+          report.items.push({
+            id: extensionId,
+            action: "install",
+            status: ExtensionStatus.Failed,
+            durationMs: 0,
+            error: error.message,
+          });
+          outputChannel.appendLine(`Skipped ${extensionId}: ${error.message}`);
+          doneCount++;
+          return;
+        }
+
+        // Check if already installed (at a version the policy accepts)
+        if (plan.action === "skip") {
+          extensionTreeProvider.updateExtensionStatus(
+            extensionId,
+            ExtensionStatus.AlreadyInstalled
+          );
+          report.items.push({
+            id: extensionId,
+            action: "install",
+            spec: plan.spec,
+            status: ExtensionStatus.AlreadyInstalled,
+            durationMs: 0,
+          });
+          doneCount++;
+          return;
+        }
+
+        extensionTreeProvider.updateExtensionStatus(
+          extensionId,
+          ExtensionStatus.Installing
+        );
+
+        const preRelease = usePreRelease(ext.extensionData, plan.spec);
+        outputChannel.appendLine(
+          `Installing ${plan.spec}${preRelease ? " (pre-release)" : ""}...`
+        );
+        const result = await installExtension(
+          installer,
+          ext.extensionData,
+          plan,
+          ext.localPackage
+        );
+
+        doneCount++;
+        progress.report({
+          message: `Installed ${extensionId} (${doneCount}/${total})`,
+          increment: (1 / total) * 90,
+        });
+        report.items.push({
+          id: extensionId,
+          action: "install",
+          spec: plan.spec,
+          status: result.success
+            ? ExtensionStatus.Success
+            : ExtensionStatus.Failed,
+          durationMs: Date.now() - started,
+          error: result.error,
+          stderr: result.success ? undefined : result.stderr,
+        });
+
+        if (result.success) {
+          extensionTreeProvider.updateExtensionStatus(
+            extensionId,
+            ExtensionStatus.Success
+          );
+          if (plan.spec !== extensionId && !installer.dryRun) {
+            extensionTreeProvider.updateInstalledVersion(
+              extensionId,
+              ext.extensionData.version
+            );
+          }
+          outputChannel.appendLine(`Successfully installed ${extensionId}`);
+        } else {
+          extensionTreeProvider.updateExtensionStatus(
+            extensionId,
+            ExtensionStatus.Failed,
+            result.error
+          );
+          outputChannel.appendLine(`Failed to install ${extensionId}`);
+        }
+      },
+      run.isCancelled
+    );
+
+    // Extensions disabled in the file: newly installed ones, and ones that
+    // were already there but are enabled here
+    if (installer.dryRun) {
+      return;
+    }
+    offerToDisable(
+      extensionItems
+        .filter(
+          (ext) =>
+            ext.extensionData.disabled &&
+            (ext.status === ExtensionStatus.Success ||
+              (ext.status === ExtensionStatus.AlreadyInstalled &&
+                !!vscode.extensions.getExtension(ext.extensionData.id)))
+        )
+        .map((ext) => ext.extensionData)
+    );
+  }
+
+  // Helper to uninstall unwanted items one at a time, recording each result
+  // in `report`
+  async function uninstallItems(
+    items: ExtensionItem[],
+    installer: Installer,
+    outputChannel: vscode.OutputChannel,
+    run: InstallRunOptions,
+    report: InstallReport,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ) {
+    for (const item of items) {
+      if (run.isCancelled()) {
+        break;
+      }
+      const extensionId = item.extensionData.id;
+      const started = Date.now();
+      progress.report({ message: `Uninstalling ${extensionId}...` });
+      extensionTreeProvider.updateExtensionStatus(
+        extensionId,
+        ExtensionStatus.Installing
+      );
+      const result = await uninstallExtension(installer, extensionId);
+      report.items.push({
+        id: extensionId,
+        action: "uninstall",
+        status: result.success
+          ? ExtensionStatus.Removed
+          : ExtensionStatus.Failed,
+        durationMs: Date.now() - started,
+        error: result.error,
+        stderr: result.success ? undefined : result.stderr,
+      });
+      if (result.success) {
+        extensionTreeProvider.updateExtensionStatus(
+          extensionId,
+          ExtensionStatus.Removed
+        );
+        outputChannel.appendLine(`Successfully uninstalled ${extensionId}`);
+      } else {
+        extensionTreeProvider.updateExtensionStatus(
+          extensionId,
+          ExtensionStatus.Failed,
+          result.error
+        );
+        outputChannel.appendLine(`Failed to uninstall ${extensionId}`);
+      }
+    }
+  }
+
+  // Helper to hand extensions over to the user to disable (there is no API
+  // for it), marking them in the tree and in `report`
+  function markForDisabling(items: ExtensionItem[], report: InstallReport) {
+    items.forEach((item) => {
+      extensionTreeProvider.updateExtensionStatus(
+        item.extensionData.id,
+        ExtensionStatus.ToDisable
+      );
+      report.items.push({
+        id: item.extensionData.id,
+        action: "disable",
+        status: ExtensionStatus.ToDisable,
+        durationMs: 0,
+      });
+    });
+    vscode.commands.executeCommand(
+      "workbench.extensions.action.showExtensionsWithIds",
+      items.map((item) => item.extensionData.id)
+    );
+  }
+
+  // Helper to save a finished run and show `message` with shortcuts to the
+  // report and, after failures of tree items, to Retry Failed
+  function finishReport(
+    report: InstallReport,
+    cancelled: boolean,
+    message: string,
+    canRetry = true
+  ) {
+    report.finishedAt = new Date().toISOString();
+    report.cancelled = cancelled;
+    try {
+      saveReport(getReportsDir(), report);
+    } catch (e: any) {
+      vscode.window.showErrorMessage(
+        `Could not save the installation report: ${e.message}`
+      );
+    }
+    reportTreeProvider.refresh();
+
+    const failed = summarizeReport(report).failed > 0;
+    const actions =
+      failed && canRetry ? ["Show Report", "Retry Failed"] : ["Show Report"];
+    (failed
+      ? vscode.window.showWarningMessage(message, ...actions)
+      : vscode.window.showInformationMessage(message, ...actions)
+    ).then((choice) => {
+      if (choice === "Show Report") {
+        showReport(report);
+      } else if (choice === "Retry Failed") {
+        vscode.commands.executeCommand("vscode-extension-manager.retryFailed");
+      }
+    });
+  }
+
+  // Helper to get the folder installation reports are kept in
+  function getReportsDir(): string {
+    return path.join(context.globalStorageUri.fsPath, "install-reports");
+  }
+
+  // Helper to open a report as Markdown
+  async function showReport(report: InstallReport) {
+    const document = await vscode.workspace.openTextDocument({
+      content: renderReportMarkdown(report),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  // Helper to open a diff of settings.json against `proposed`
+  async function showSettingsDiff(proposed: string) {
+    const previewDir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(previewDir, { recursive: true });
+    const previewPath = path.join(previewDir, "settings.preview.json");
+    fs.writeFileSync(previewPath, proposed);
+
+    const settingsPath = getSettingsPath();
+    const currentUri = fs.existsSync(settingsPath)
+      ? vscode.Uri.file(settingsPath)
+      : vscode.Uri.parse("untitled:settings.json");
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      currentUri,
+      vscode.Uri.file(previewPath),
+      "settings.json ↔ After Import (Preview)"
+    );
+
+    // List values rewritten for this platform next to the diff
+    const rewrites = extensionTreeProvider.getSelectedRewrites();
+    if (rewrites.length > 0) {
+      const outputChannel =
+        vscode.window.createOutputChannel("Extension Manager");
+      outputChannel.appendLine(
+        `${rewrites.length} settings values rewritten for ${process.platform}:`
+      );
+      rewrites.forEach((rewrite) =>
+        outputChannel.appendLine(
+          rewrite.kind === "key"
+            ? `  ${rewrite.label}: ${rewrite.reason}`
+            : `  ${rewrite.label}: ${JSON.stringify(
+                rewrite.original
+              )} -> ${JSON.stringify(rewrite.rewritten)} (${rewrite.reason})`
+        )
+      );
+      outputChannel.show(true);
+    }
+  }
+
+  // Helper to get the user snippets directory
+  function getSnippetsDir(): string {
+    return userFiles(path.dirname(getSettingsPath())).snippets;
+  }
+
+  // Helper to read an extensions file, asking for the passphrase if it is
+  // encrypted. Returns undefined if the user cancels; throws if the file
+  // cannot be read or decrypted.
+  async function readExtensionList(
+    filePath: string
+  ): Promise<ImportResult | undefined> {
+    let content = fs.readFileSync(filePath, "utf8");
+    if (isEncryptedExport(content)) {
+      let prompt = `Passphrase for ${path.basename(filePath)}`;
+      for (;;) {
+        const passphrase = await vscode.window.showInputBox({
+          prompt,
+          password: true,
+          ignoreFocusOut: true,
+        });
+        if (passphrase === undefined) {
+          return undefined;
+        }
+        try {
+          content = await decryptExport(content, passphrase);
+          break;
+        } catch (error) {
+          if (
+            !(error instanceof DecryptionError) ||
+            error.reason !== "passphrase"
+          ) {
+            throw error;
+          }
+          prompt = `Wrong passphrase for ${path.basename(
+            filePath
+          )}. Try again.`;
+        }
+      }
+    }
+    const imported = importExtensionList(content);
+    reportUnparsedLines(imported, path.basename(filePath));
+    return imported;
+  }
+
+  // Helper to ask for a passphrase to encrypt with, twice. Returns
+  // undefined if the user cancels.
+  async function askNewPassphrase(): Promise<string | undefined> {
+    const passphrase = await vscode.window.showInputBox({
+      prompt: "Passphrase to encrypt the export with",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.length < 8 ? "Use at least 8 characters." : undefined,
+    });
+    if (passphrase === undefined) {
+      return undefined;
+    }
+    const repeated = await vscode.window.showInputBox({
+      prompt: "Repeat the passphrase",
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value !== passphrase ? "The passphrases do not match." : undefined,
+    });
+    return repeated === undefined ? undefined : passphrase;
+  }
+
+  // Helper to load an export, or any format an importer recognizes, into
+  // the tree. Returns what was loaded, or undefined if the user cancelled
+  // the passphrase prompt. Throws if the file cannot be read.
+  async function loadFileIntoTree(
+    filePath: string
+  ): Promise<ImportResult["data"] | undefined> {
+    const imported = await readExtensionList(filePath);
+    if (!imported) {
+      return undefined;
+    }
+    const data = imported.data;
+    const extensions = data.extensions;
+
+    // Named profiles may list extensions the flat array lacks
+    const profiles = data.profiles ? resolveProfiles(data.profiles) : [];
+    addProfileExtensions(extensions, profiles);
+
+    // Rewrite paths and platform-specific keys for this machine
+    const rewrites: SettingRewrite[] = [];
+    const translate = (settings: { [key: string]: any }) => {
+      const translation = translateForThisPlatform(settings, data.meta);
+      rewrites.push(...translation.rewrites);
+      return translation.settings;
+    };
+    const settings = data.settings && translate(data.settings);
+    profiles.forEach(
+      (profile) => (profile.settings = translate(profile.settings))
+    );
+
+    // Load extensions into tree, compared against what is installed
+    extensionTreeProvider.loadExtensions(
+      extensions,
+      getInstalledExtensionData()
+    );
+
+    // Offline bundles ship a .vsix next to the manifest
+    extensionTreeProvider.setLocalPackages((ext) =>
+      resolveLocalPackage(ext, filePath)
+    );
+
+    // Handle Settings, compared against the current settings.json
+    if (settings) {
+      extensionTreeProvider.addSettingsItem(settings, rewrites);
+    }
+
+    // Handle Profiles
+    if (profiles.length > 0) {
+      extensionTreeProvider.loadProfiles(profiles, rewrites);
+    }
+
+    // Handle Snippets
+    if (data.snippets && typeof data.snippets === "object") {
+      extensionTreeProvider.addSnippetItems(data.snippets);
+    }
+
+    // Handle Keybindings
+    const hasKeybindings = Array.isArray(data.keybindings);
+    if (hasKeybindings) {
+      extensionTreeProvider.addKeybindingsItem(data.keybindings!);
+    }
+
+    vscode.window.showInformationMessage(
+      `Loaded ${extensions.length} extensions${
+        data.settings ? " and settings" : ""
+      }${hasKeybindings ? " and keybindings" : ""}${
+        data.snippets ? " and snippets" : ""
+      }${profiles.length > 0 ? ` (${profiles.length} profiles)` : ""} from ${
+        imported.format
+      }.`
+    );
+    return data;
+  }
+
   // Register loadFile command (UPDATED for settings)
   const loadFileCommand = vscode.commands.registerCommand(
     "vscode-extension-manager.loadFile",
@@ -138,34 +1124,12 @@ export function activate(context: vscode.ExtensionContext) {
         canSelectFiles: true,
         canSelectFolders: false,
         canSelectMany: false,
-        filters: { JSON: ["json"] },
+        filters: EXTENSION_LIST_FILTERS,
       });
 
       if (uri && uri[0]) {
         try {
-          const fileContent = fs.readFileSync(uri[0].fsPath, "utf8");
-          const data = jsonc.parse(fileContent); // Load File is standard JSON (the export file)
-          const extensions: ExtensionData[] = Array.isArray(data)
-            ? data
-            : data.extensions || [];
-
-          if (!Array.isArray(extensions)) {
-            throw new Error("Invalid extensions file format");
-          }
-
-          // Load extensions into tree
-          extensionTreeProvider.loadExtensions(extensions);
-
-          // Handle Settings
-          if (data.settings) {
-            extensionTreeProvider.addSettingsItem(data.settings);
-          }
-
-          vscode.window.showInformationMessage(
-            `Loaded ${extensions.length} extensions${
-              data.settings ? " and settings" : ""
-            }.`
-          );
+          await loadFileIntoTree(uri[0].fsPath);
         } catch (error) {
           vscode.window.showErrorMessage(`Error loading file: ${error}`);
         }
@@ -173,183 +1137,1494 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  // Register installSelected command (UPDATED for settings)
-  const installSelectedCommand = vscode.commands.registerCommand(
-    "vscode-extension-manager.installSelected",
-    async () => {
-      const selected = extensionTreeProvider.getSelectedExtensions();
-      if (selected.length === 0) {
-        vscode.window.showWarningMessage("No items selected.");
-        return;
-      }
-
-      const cliPath = getCLIPath();
-      const outputChannel =
-        vscode.window.createOutputChannel("Extension Manager");
-      outputChannel.show();
-      outputChannel.appendLine(`Starting installation...`);
-
-      // Check for Settings item
-      const settingsItem = selected.find((item) => item.id === "settings");
-      const extensionItems = selected.filter((item) => item.id !== "settings");
+  // Helper to list tree items that would be installed from a registry
+  function registryCandidates(items: ExtensionItem[]): ExtensionItem[] {
+    return items.filter(
+      (item) =>
+        item.isExtension && item.inFile && !item.unwanted && !item.localPackage
+    );
+  }
 
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: "Installing Extensions & Settings",
-          cancellable: true,
-        },
-        async (progress, token) => {
-          // 1. Install Settings if selected
-          if (settingsItem && settingsItem.settingsData) {
-            progress.report({ message: `Applying Settings...`, increment: 10 });
+  // Helper to check `items` against the registry at `registryUrl`, marking
+  // each one in the tree. Returns how many are unavailable, or undefined if
+  // the check was cancelled.
+  async function checkRegistry(
+    registryUrl: string,
+    items: ExtensionItem[]
+  ): Promise<number | undefined> {
+    const config = vscode.workspace.getConfiguration(
+      "extensionManager.registry"
+    );
+    const timeoutMs =
+      Math.max(1, config.get<number>("timeoutSeconds", 10)) * 1000;
+    const outputChannel =
+      vscode.window.createOutputChannel("Extension Manager");
+
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Checking availability on ${registryUrl}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const run = getInstallRunOptions(token);
+        let unavailableCount = 0;
+        let failedCount = 0;
+        let doneCount = 0;
+
+        await runQueue(
+          items,
+          run.concurrency,
+          async (item) => {
+            const extensionId = item.extensionData.id;
             try {
-              const settingsPath = getSettingsPath();
-              let currentSettings = {};
-              if (fs.existsSync(settingsPath)) {
-                try {
-                  const currentContent = fs.readFileSync(settingsPath, "utf8");
-                  // Parse current settings using robust parser
-                  currentSettings = jsonc.parse(currentContent);
-                } catch (e) {
-                  outputChannel.appendLine(
-                    `Warning: Could not parse current settings.json: ${e}`
-                  );
-                }
-              }
-
-              // Merge new settings on top of current
-              const newSettings = {
-                ...currentSettings,
-                ...settingsItem.settingsData,
-              };
-
-              // Write back
-              fs.writeFileSync(
-                settingsPath,
-                JSON.stringify(newSettings, null, 4)
-              );
-
-              extensionTreeProvider.updateExtensionStatus(
-                "settings",
-                ExtensionStatus.Success
+              const result = await checkAvailability(
+                registryUrl,
+                item.extensionData,
+                timeoutMs
               );
-              outputChannel.appendLine(`Successfully applied settings.`);
+              extensionTreeProvider.setAvailability(item.id!, result);
+              if (result.availability === Availability.Unavailable) {
+                unavailableCount++;
+                outputChannel.appendLine(
+                  `${extensionId}: unavailable (${result.reason})`
+                );
+              } else if (result.availability === Availability.VersionDiffers) {
+                outputChannel.appendLine(
+                  `${extensionId}: ${result.reason} (latest: ${result.latestVersion})`
+                );
+              }
             } catch (e: any) {
-              extensionTreeProvider.updateExtensionStatus(
-                "settings",
-                ExtensionStatus.Failed,
-                e.message
-              );
+              failedCount++;
               outputChannel.appendLine(
-                `Failed to apply settings: ${e.message}`
+                `${extensionId}: could not be checked (${e.message})`
               );
             }
-          }
-
-          // 2. Install Extensions
-          const total = extensionItems.length;
-          let installedCount = 0;
-          let errorCount = 0;
-
-          for (let i = 0; i < total; i++) {
-            if (token.isCancellationRequested) {
-              outputChannel.appendLine("Operation cancelled.");
-              break;
+            doneCount++;
+            progress.report({
+              message: `${doneCount}/${items.length}`,
+              increment: 100 / items.length,
+            });
+          },
+          run.isCancelled
+        );
+
+        if (failedCount > 0) {
+          vscode.window.showWarningMessage(
+            `${failedCount} extensions could not be checked against ${registryUrl}. See 'Extension Manager' output.`
+          );
+        }
+        return token.isCancellationRequested ? undefined : unavailableCount;
+      }
+    );
+  }
+
+  // Register checkAvailability command (registry pre-flight on demand)
+  const checkAvailabilityCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.checkAvailability",
+    async () => {
+      const registryUrl = getRegistryUrl();
+      if (!registryUrl) {
+        const choice = await vscode.window.showWarningMessage(
+          "Set extensionManager.registry.url to check availability.",
+          "Open Settings"
+        );
+        if (choice) {
+          vscode.commands.executeCommand(
+            "workbench.action.openSettings",
+            "extensionManager.registry"
+          );
+        }
+        return;
+      }
+
+      const items = registryCandidates(extensionTreeProvider.getExtensions());
+      if (items.length === 0) {
+        vscode.window.showWarningMessage(
+          "Load an extensions file before checking availability."
+        );
+        return;
+      }
+      const unavailableCount = await checkRegistry(registryUrl, items);
+      if (unavailableCount !== undefined) {
+        vscode.window.showInformationMessage(
+          `Checked ${items.length} extensions: ${unavailableCount} unavailable${
+            unavailableCount > 0 ? " (unchecked)" : ""
+          }.`
+        );
+      }
+    }
+  );
+
+  // Helper to run Install Selected. Sync to File passes the installed
+  // extensions missing from the file; they are uninstalled (or handed over
+  // to disable) in the same run, and only when nothing before them failed
+  // and the run was not cancelled.
+  async function installSelectedItems(removal?: {
+    items: ExtensionItem[];
+    action: "uninstall" | "disable";
+  }) {
+    // Pre-flight: uncheck extensions the configured registry cannot serve
+    const registryUrl = getRegistryUrl();
+    if (registryUrl) {
+      const unavailableCount = await checkRegistry(
+        registryUrl,
+        registryCandidates(extensionTreeProvider.getSelectedExtensions())
+      );
+      if (unavailableCount === undefined) {
+        return;
+      }
+      if (unavailableCount > 0) {
+        vscode.window.showWarningMessage(
+          `${unavailableCount} extensions are not available on ${registryUrl} and were unchecked. Hover them for details.`
+        );
+      }
+    }
+
+    const selected = extensionTreeProvider.getSelectedExtensions();
+    if (selected.length === 0 && !removal) {
+      vscode.window.showWarningMessage("No items selected.");
+      return;
+    }
+
+    const outputChannel =
+      vscode.window.createOutputChannel("Extension Manager");
+    outputChannel.show();
+    outputChannel.appendLine(`Starting installation...`);
+
+    // Check for Settings and Keybindings items
+    const settingsItem = selected.find((item) => item.id === "settings");
+    const keybindingsItem = selected.find((item) => item.id === "keybindings");
+    const snippetItems = selected.filter((item) => item.isSnippet);
+    const extensionItems = selected.filter(
+      (item) => item.isExtension && item.inFile
+    );
+    const unwantedItems = selected.filter(
+      (item) => item.unwanted && item.installedVersion
+    );
+
+    // Preview the resulting settings.json before anything is written
+    let settingsContent: string | undefined;
+    if (settingsItem && settingsItem.settingsData) {
+      // Fill in values that were redacted on export
+      const selectedSettings = await resolvePlaceholders(
+        extensionTreeProvider.getSelectedSettings(),
+        os.homedir(),
+        (label) =>
+          vscode.window.showInputBox({
+            prompt: `Value for ${label} (redacted in the file). Leave empty to skip this setting.`,
+            password: true,
+            ignoreFocusOut: true,
+          })
+      );
+      settingsContent = buildProposedSettings(selectedSettings);
+      await showSettingsDiff(settingsContent);
+      const answer = await vscode.window.showInformationMessage(
+        "Apply the previewed settings.json changes?",
+        { modal: true },
+        "Apply"
+      );
+      if (answer !== "Apply") {
+        settingsContent = undefined;
+        outputChannel.appendLine(`Settings skipped.`);
+      }
+    }
+
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Installing Extensions & Settings",
+        cancellable: true,
+      },
+      async (progress, token) => {
+        const run = getInstallRunOptions(token);
+        const installer = getInstaller(outputChannel, run);
+        const title = removal ? "Sync to File" : "Install Selected";
+        const report = startReport(
+          installer.dryRun ? `${title} (dry run)` : title,
+          installer.label
+        );
+        // Helper to record a settings, keybindings or snippets result
+        const record = (
+          id: string,
+          status: ExtensionStatus,
+          started: number,
+          error?: string
+        ) =>
+          report.items.push({
+            id,
+            action: "apply",
+            status,
+            durationMs: Date.now() - started,
+            error,
+          });
+
+        // 1. Install Settings if selected (and confirmed in the preview)
+        if (settingsItem && settingsContent !== undefined) {
+          progress.report({ message: `Applying Settings...`, increment: 10 });
+          const started = Date.now();
+          try {
+            const backup = backupSettings();
+            if (backup) {
+              outputChannel.appendLine(`Backed up settings to ${backup.file}`);
             }
+            fs.writeFileSync(getSettingsPath(), settingsContent);
+
+            extensionTreeProvider.updateExtensionStatus(
+              "settings",
+              ExtensionStatus.Success
+            );
+            record("settings", ExtensionStatus.Success, started);
+            outputChannel.appendLine(`Successfully applied settings.`);
+          } catch (e: any) {
+            extensionTreeProvider.updateExtensionStatus(
+              "settings",
+              ExtensionStatus.Failed,
+              e.message
+            );
+            record("settings", ExtensionStatus.Failed, started, e.message);
+            outputChannel.appendLine(`Failed to apply settings: ${e.message}`);
+          }
+        }
+
+        // 1b. Merge Keybindings if selected
+        if (keybindingsItem && keybindingsItem.keybindingsData) {
+          progress.report({ message: `Merging Keybindings...` });
+          const started = Date.now();
+          try {
+            const keybindingsPath = getKeybindingsPath();
+            const currentContent = fs.existsSync(keybindingsPath)
+              ? fs.readFileSync(keybindingsPath, "utf8")
+              : "";
+            const merge = mergeKeybindings(
+              currentContent,
+              keybindingsItem.keybindingsData
+            );
 
-            const ext = extensionItems[i];
-            const extensionId = ext.extensionData.id;
+            fs.writeFileSync(keybindingsPath, merge.text);
 
-            // Check if already installed
-            if (vscode.extensions.getExtension(extensionId)) {
+            merge.conflicts.forEach(({ incoming, existing }) => {
+              outputChannel.appendLine(
+                `Warning: keybinding ${incoming.key} -> ${
+                  incoming.command
+                } conflicts with existing ${existing.command}${
+                  existing.when ? ` (when ${existing.when})` : ""
+                }`
+              );
+            });
+            extensionTreeProvider.updateExtensionStatus(
+              "keybindings",
+              ExtensionStatus.Success
+            );
+            record("keybindings", ExtensionStatus.Success, started);
+            outputChannel.appendLine(
+              `Merged keybindings: ${merge.added.length} added, ${merge.duplicates.length} duplicates skipped, ${merge.conflicts.length} conflicts.`
+            );
+            if (merge.conflicts.length > 0) {
+              vscode.window.showWarningMessage(
+                `${merge.conflicts.length} imported keybindings conflict with existing ones. See 'Extension Manager' output.`
+              );
+            }
+          } catch (e: any) {
+            extensionTreeProvider.updateExtensionStatus(
+              "keybindings",
+              ExtensionStatus.Failed,
+              e.message
+            );
+            record("keybindings", ExtensionStatus.Failed, started, e.message);
+            outputChannel.appendLine(
+              `Failed to merge keybindings: ${e.message}`
+            );
+          }
+        }
+
+        // 1c. Write checked Snippet files
+        if (snippetItems.length > 0) {
+          progress.report({ message: `Writing Snippets...` });
+          const snippetsDir = getSnippetsDir();
+          fs.mkdirSync(snippetsDir, { recursive: true });
+
+          for (const item of snippetItems) {
+            const itemId = item.id!;
+            const fileName = path.basename(item.extensionData.displayName!);
+            const content = item.snippetContent || "";
+            let targetName = fileName;
+            const started = Date.now();
+
+            try {
+              const targetPath = path.join(snippetsDir, fileName);
+              if (fs.existsSync(targetPath)) {
+                if (fs.readFileSync(targetPath, "utf8") === content) {
+                  extensionTreeProvider.updateExtensionStatus(
+                    itemId,
+                    ExtensionStatus.AlreadyInstalled
+                  );
+                  record(itemId, ExtensionStatus.AlreadyInstalled, started);
+                  continue;
+                }
+
+                const choice = await vscode.window.showQuickPick(
+                  ["Overwrite", "Skip", "Rename"],
+                  {
+                    placeHolder: `Snippet file ${fileName} already exists with different content.`,
+                  }
+                );
+                if (!choice || choice === "Skip") {
+                  outputChannel.appendLine(`Skipped snippets ${fileName}`);
+                  continue;
+                }
+                if (choice === "Rename") {
+                  targetName = uniqueSnippetName(snippetsDir, fileName);
+                }
+              }
+
+              fs.writeFileSync(path.join(snippetsDir, targetName), content);
               extensionTreeProvider.updateExtensionStatus(
-                extensionId,
-                ExtensionStatus.AlreadyInstalled
+                itemId,
+                ExtensionStatus.Success
+              );
+              record(itemId, ExtensionStatus.Success, started);
+              outputChannel.appendLine(`Wrote snippets ${targetName}`);
+            } catch (e: any) {
+              extensionTreeProvider.updateExtensionStatus(
+                itemId,
+                ExtensionStatus.Failed,
+                e.message
+              );
+              record(itemId, ExtensionStatus.Failed, started, e.message);
+              outputChannel.appendLine(
+                `Failed to write snippets ${fileName}: ${e.message}`
               );
-              continue;
             }
+          }
+        }
+
+        // 2. Install Extensions (several at once, see extensionManager.install.*)
+        await installExtensionItems(
+          extensionItems,
+          installer,
+          outputChannel,
+          run,
+          report,
+          progress
+        );
+
+        // 3. Uninstall checked unwanted recommendations
+        await uninstallItems(
+          unwantedItems,
+          installer,
+          outputChannel,
+          run,
+          report,
+          progress
+        );
+
+        // 4. Sync to File: remove the extensions missing from the file
+        let removalSkipped = false;
+        if (removal) {
+          if (
+            token.isCancellationRequested ||
+            summarizeReport(report).failed > 0
+          ) {
+            removalSkipped = true;
+            outputChannel.appendLine(
+              `Left ${
+                removal.items.length
+              } extensions not in the file installed because the installation ${
+                token.isCancellationRequested ? "was cancelled" : "had failures"
+              }.`
+            );
+          } else if (removal.action === "uninstall") {
+            await uninstallItems(
+              removal.items,
+              installer,
+              outputChannel,
+              run,
+              report,
+              progress
+            );
+          } else {
+            markForDisabling(removal.items, report);
+          }
+        }
+
+        if (token.isCancellationRequested) {
+          outputChannel.appendLine("Operation cancelled.");
+        }
+
+        const summary = summarizeReport(report);
+        const settingsResult = report.items.find(
+          (item) => item.id === "settings"
+        );
+        const settingsApplied = !settingsItem?.settingsData
+          ? "No"
+          : !settingsResult
+          ? "Declined"
+          : settingsResult.status === ExtensionStatus.Success
+          ? "Yes"
+          : "Failed";
+        finishReport(
+          report,
+          token.isCancellationRequested,
+          `Process complete. Installed: ${
+            report.items.filter(
+              (item) =>
+                item.action === "install" &&
+                item.status === ExtensionStatus.Success
+            ).length
+          } extensions.${
+            unwantedItems.length > 0 || removal?.action === "uninstall"
+              ? ` Uninstalled: ${summary.removed}.`
+              : ""
+          }${
+            summary.toDisable > 0
+              ? ` To disable in the Extensions view: ${summary.toDisable}.`
+              : ""
+          } Failed: ${summary.failed}. Settings applied: ${settingsApplied}.${
+            removalSkipped
+              ? " Extensions not in the file were left installed."
+              : ""
+          }`
+        );
+      }
+    );
+  }
+
+  // Register installSelected command (UPDATED for settings)
+  const installSelectedCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.installSelected",
+    () => installSelectedItems()
+  );
+
+  // ... (Select All, Deselect All, Show Error remain mostly same, mostly logic in provider) ...
+  // ... Register export command logic to include settings ...
+
+  // Register selectAll command
+  const selectAllCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.selectAll",
+    () => {
+      extensionTreeProvider.selectAll();
+    }
+  );
+
+  // Register deselectAll command
+  const deselectAllCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.deselectAll",
+    () => {
+      extensionTreeProvider.deselectAll();
+    }
+  );
+
+  // Register filterTree command: the tree follows the input as it is typed,
+  // Escape restores the previous filter
+  const filterTreeCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.filterTree",
+    () => {
+      const previous = extensionTreeProvider.getViewState().filter;
+      const input = vscode.window.createInputBox();
+      input.title = "Filter Extensions";
+      input.placeholder = "Match ID, name, publisher or description";
+      input.value = previous;
+      let accepted = false;
+      input.onDidChangeValue((value) =>
+        extensionTreeProvider.setViewState({ filter: value.trim() })
+      );
+      input.onDidAccept(() => {
+        accepted = true;
+        updateViewState({ filter: input.value.trim() });
+        input.hide();
+      });
+      input.onDidHide(() => {
+        if (!accepted) {
+          extensionTreeProvider.setViewState({ filter: previous });
+        }
+        input.dispose();
+      });
+      input.show();
+    }
+  );
+
+  const clearFilterCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.clearFilter",
+    () => updateViewState({ filter: "" })
+  );
+
+  // Register groupBy / sortBy commands
+  const groupByCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.groupBy",
+    async () => {
+      const current = extensionTreeProvider.getViewState().grouping;
+      const choices = [
+        { label: "Status", grouping: TreeGrouping.Status },
+        { label: "Publisher", grouping: TreeGrouping.Publisher },
+        { label: "Category", grouping: TreeGrouping.Category },
+        { label: "None", grouping: TreeGrouping.None },
+      ].map((choice) => ({
+        ...choice,
+        description: choice.grouping === current ? "current" : undefined,
+      }));
+      const pick = await vscode.window.showQuickPick(choices, {
+        placeHolder: "Group extensions by",
+      });
+      if (pick) {
+        updateViewState({ grouping: pick.grouping });
+      }
+    }
+  );
+
+  const sortByCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.sortBy",
+    async () => {
+      const current = extensionTreeProvider.getViewState().sort;
+      const choices = [
+        { label: "File Order", sort: TreeSort.File },
+        { label: "Name", sort: TreeSort.Name },
+        { label: "ID", sort: TreeSort.Id },
+        { label: "Publisher", sort: TreeSort.Publisher },
+      ].map((choice) => ({
+        ...choice,
+        description: choice.sort === current ? "current" : undefined,
+      }));
+      const pick = await vscode.window.showQuickPick(choices, {
+        placeHolder: "Sort extensions by",
+      });
+      if (pick) {
+        updateViewState({ sort: pick.sort });
+      }
+    }
+  );
+
+  // Register selectVisible / deselectVisible commands
+  const selectVisibleCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.selectVisible",
+    () => {
+      extensionTreeProvider.selectOnlyVisible();
+    }
+  );
+
+  const deselectVisibleCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.deselectVisible",
+    () => {
+      extensionTreeProvider.deselectVisible();
+    }
+  );
+
+  // Register retryFailed command: re-queues extensions whose install or
+  // uninstall failed in the last run
+  const retryFailedCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.retryFailed",
+    async () => {
+      const failed = extensionTreeProvider
+        .getExtensions()
+        .filter((ext) => ext.status === ExtensionStatus.Failed);
+      const toInstall = failed.filter((ext) => ext.isExtension && ext.inFile);
+      // Unwanted recommendations and Sync to File removals
+      const toUninstall = failed.filter(
+        (ext) =>
+          (ext.unwanted || (ext.isExtension && !ext.inFile)) &&
+          ext.installedVersion
+      );
+      const notRetried = failed.length - toInstall.length - toUninstall.length;
+      if (toInstall.length + toUninstall.length === 0) {
+        vscode.window.showInformationMessage(
+          notRetried > 0
+            ? "Only settings, keybindings or snippets failed. Run Install Selected again to retry them."
+            : "No failed extensions to retry."
+        );
+        return;
+      }
+
+      const outputChannel =
+        vscode.window.createOutputChannel("Extension Manager");
+      outputChannel.show();
+      outputChannel.appendLine(
+        `Retrying ${toInstall.length + toUninstall.length} failed extensions...`
+      );
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Retrying Failed Extensions",
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const run = getInstallRunOptions(token);
+          const installer = getInstaller(outputChannel, run);
+          const report = startReport(
+            installer.dryRun ? "Retry Failed (dry run)" : "Retry Failed",
+            installer.label
+          );
+          await installExtensionItems(
+            toInstall,
+            installer,
+            outputChannel,
+            run,
+            report,
+            progress
+          );
+          await uninstallItems(
+            toUninstall,
+            installer,
+            outputChannel,
+            run,
+            report,
+            progress
+          );
+
+          if (token.isCancellationRequested) {
+            outputChannel.appendLine("Operation cancelled.");
+          }
+          const summary = summarizeReport(report);
+          finishReport(
+            report,
+            token.isCancellationRequested,
+            `Retry complete. Succeeded: ${
+              summary.succeeded + summary.removed
+            }, Failed: ${summary.failed}.${
+              notRetried > 0
+                ? ` ${notRetried} settings, keybindings or snippets items were not retried.`
+                : ""
+            }`
+          );
+        }
+      );
+    }
+  );
+
+  // Register showLastReport / openReport commands
+  const showLastReportCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.showLastReport",
+    async () => {
+      const [last] = loadReports(getReportsDir());
+      if (!last) {
+        vscode.window.showInformationMessage(
+          "No installation reports yet. Reports are saved after Install Selected and Retry Failed."
+        );
+        return;
+      }
+      reportTreeProvider.refresh();
+      await vscode.commands.executeCommand("extensionManagerReports.focus");
+      await showReport(last);
+    }
+  );
+
+  const openReportCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.openReport",
+    (item: ReportRunItem) => {
+      if (item) {
+        showReport(item.report);
+      }
+    }
+  );
+
+  // Register exportReport command (a run from the reports view, or the
+  // last one)
+  const exportReportCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.exportReport",
+    async (item?: ReportRunItem) => {
+      const report = item?.report || loadReports(getReportsDir())[0];
+      if (!report) {
+        vscode.window.showInformationMessage("No installation reports yet.");
+        return;
+      }
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(
+          path.join(os.homedir(), `install-report-${report.id}.md`)
+        ),
+        filters: { Markdown: ["md"], JSON: ["json"] },
+      });
+      if (!uri) {
+        return;
+      }
+      try {
+        fs.writeFileSync(
+          uri.fsPath,
+          uri.fsPath.toLowerCase().endsWith(".json")
+            ? JSON.stringify(report, null, 2)
+            : renderReportMarkdown(report)
+        );
+        vscode.window.showInformationMessage(
+          `Exported the report to ${uri.fsPath}`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error exporting report: ${error}`);
+      }
+    }
+  );
+
+  // Register showError command
+  const showErrorCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.showError",
+    (item: ExtensionItem) => {
+      if (item.errorMessage) {
+        vscode.window.showErrorMessage(`Error: ${item.errorMessage}`);
+      }
+    }
+  );
+
+  // Register previewSettings command (diff only, nothing is written)
+  const previewSettingsCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.previewSettings",
+    async () => {
+      if (
+        !extensionTreeProvider.getExtensions().some((e) => e.id === "settings")
+      ) {
+        vscode.window.showWarningMessage("No settings loaded.");
+        return;
+      }
+      await showSettingsDiff(buildProposedSettings());
+    }
+  );
+
+  // Register restoreSettingsBackup command
+  const restoreSettingsBackupCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.restoreSettingsBackup",
+    async () => {
+      const backups = context.globalState
+        .get<SettingsBackup[]>("settingsBackups", [])
+        .filter((b) => fs.existsSync(b.file))
+        .reverse();
+      if (backups.length === 0) {
+        vscode.window.showInformationMessage("No settings backups found.");
+        return;
+      }
+
+      const picked = await vscode.window.showQuickPick(
+        backups.map((backup) => ({
+          label: new Date(backup.createdAt).toLocaleString(),
+          description: path.basename(backup.file),
+          detail: backup.settingsPath,
+          backup,
+        })),
+        { placeHolder: "Select a settings backup to restore" }
+      );
+      if (!picked) {
+        return;
+      }
+
+      const answer = await vscode.window.showWarningMessage(
+        `Replace settings.json with the backup from ${picked.label}? The current file is backed up first.`,
+        { modal: true },
+        "Restore"
+      );
+      if (answer !== "Restore") {
+        return;
+      }
+
+      try {
+        backupSettings();
+        fs.copyFileSync(picked.backup.file, picked.backup.settingsPath);
+        vscode.window.showInformationMessage(
+          `Restored settings from ${picked.label}.`
+        );
+      } catch (e: any) {
+        vscode.window.showErrorMessage(
+          `Failed to restore settings: ${e.message}`
+        );
+      }
+    }
+  );
+
+  // Register syncToFile command (install from file, then remove extras)
+  const syncToFileCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.syncToFile",
+    async () => {
+      if (extensionTreeProvider.getExtensions().length === 0) {
+        vscode.window.showWarningMessage(
+          "Load an extensions file before syncing."
+        );
+        return;
+      }
+
+      // Extensions installed locally but missing from the file. Unwanted
+      // recommendations are uninstalled by their own checkbox instead.
+      const allowList = getSyncAllowList();
+      allowList.add(context.extension.id.toLowerCase());
+      const candidates = extensionTreeProvider
+        .getExtensions()
+        .filter(
+          (item) =>
+            !item.inFile &&
+            !item.unwanted &&
+            !!item.installedVersion &&
+            !allowList.has(item.extensionData.id.toLowerCase())
+        );
+
+      let toRemove: ExtensionItem[] = [];
+      let removeAction: "uninstall" | "disable" | undefined;
+
+      if (candidates.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          candidates.map((item) => ({
+            label: item.extensionData.displayName || item.extensionData.id,
+            description: item.extensionData.id,
+            picked: true,
+            item,
+          })),
+          {
+            canPickMany: true,
+            placeHolder: `${candidates.length} installed extensions are not in the file. Confirm which to remove.`,
+          }
+        );
+        if (!picked) {
+          return;
+        }
+        toRemove = picked.map((p) => p.item);
+
+        if (toRemove.length > 0) {
+          const action = await vscode.window.showQuickPick(
+            [
+              {
+                label: "Uninstall",
+                description: "Remove the extensions with the CLI",
+                value: "uninstall" as const,
+              },
+              {
+                label: "Disable",
+                description: "Show them in the Extensions view to disable",
+                value: "disable" as const,
+              },
+            ],
+            { placeHolder: `What to do with ${toRemove.length} extensions?` }
+          );
+          if (!action) {
+            return;
+          }
+          removeAction = action.value;
+        }
+      }
+
+      // Bring the file's extensions in line, then remove (or hand over for
+      // disabling) the extras in the same run
+      await installSelectedItems(
+        removeAction ? { items: toRemove, action: removeAction } : undefined
+      );
+    }
+  );
+
+  // Register addToSyncAllowList command (never remove this extension in sync)
+  const addToSyncAllowListCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.addToSyncAllowList",
+    async (item: ExtensionItem) => {
+      if (!item) {
+        return;
+      }
+      const config = vscode.workspace.getConfiguration("extensionManager");
+      const allowList = config.get<string[]>("syncAllowList") || [];
+      if (!allowList.includes(item.extensionData.id)) {
+        await config.update(
+          "syncAllowList",
+          [...allowList, item.extensionData.id],
+          vscode.ConfigurationTarget.Global
+        );
+      }
+      vscode.window.showInformationMessage(
+        `${item.extensionData.id} will never be removed by Sync to File.`
+      );
+    }
+  );
+
+  // Register selectGroup / deselectGroup commands
+  const selectGroupCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.selectGroup",
+    (group: GroupItem) => {
+      if (group) {
+        extensionTreeProvider.setGroupSelection(group, true);
+      }
+    }
+  );
+
+  const deselectGroupCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.deselectGroup",
+    (group: GroupItem) => {
+      if (group) {
+        extensionTreeProvider.setGroupSelection(group, false);
+      }
+    }
+  );
+
+  // Register setVersionPolicy command (per-item override)
+  const setVersionPolicyCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.setVersionPolicy",
+    async (item: ExtensionItem) => {
+      if (!item) {
+        return;
+      }
+      const choices = [
+        {
+          label: "Use Global Setting",
+          description: getVersionPolicy(),
+          policy: undefined,
+        },
+        {
+          label: "Exact",
+          description: "Install the exported version (id@version)",
+          policy: VersionPolicy.Exact,
+        },
+        {
+          label: "Minimum",
+          description: "Keep any installed version >= the exported one",
+          policy: VersionPolicy.Minimum,
+        },
+        {
+          label: "Latest",
+          description: "Install the latest available version",
+          policy: VersionPolicy.Latest,
+        },
+      ];
+      const picked = await vscode.window.showQuickPick(choices, {
+        placeHolder: `Version policy for ${item.extensionData.id}`,
+      });
+      if (picked) {
+        extensionTreeProvider.setVersionPolicy(item, picked.policy);
+      }
+    }
+  );
+
+  // Register matchFileVersion command (upgrade/downgrade to the file's version)
+  const matchFileVersionCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.matchFileVersion",
+    async (item: ExtensionItem) => {
+      if (!item || !item.extensionData.version) {
+        return;
+      }
+      const extensionId = item.extensionData.id;
+      const version = item.extensionData.version;
+      let plan: InstallPlan;
+      try {
+        // Validates the ID and version like every other install
+        plan = planInstall(
+          extensionId,
+          version,
+          getInstalledVersion(extensionId),
+          VersionPolicy.Exact
+        );
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Cannot install ${extensionId}: ${error.message}`
+        );
+        return;
+      }
+      if (plan.action === "skip") {
+        vscode.window.showInformationMessage(
+          `${extensionId} is already at ${version}.`
+        );
+        return;
+      }
+      const outputChannel =
+        vscode.window.createOutputChannel("Extension Manager");
+      outputChannel.appendLine(`Installing ${plan.spec}...`);
+
+      extensionTreeProvider.updateExtensionStatus(
+        extensionId,
+        ExtensionStatus.Installing
+      );
+      const installer = getInstaller(outputChannel);
+      const result = await installExtension(installer, item.extensionData, {
+        ...plan,
+        force: true, // Downgrades need --force too
+      });
+
+      if (result.success) {
+        extensionTreeProvider.updateExtensionStatus(
+          extensionId,
+          ExtensionStatus.Success
+        );
+        extensionTreeProvider.updateInstalledVersion(extensionId, version);
+        vscode.window.showInformationMessage(
+          `Installed ${extensionId}@${version}. Reload the window to use it.`
+        );
+      } else {
+        extensionTreeProvider.updateExtensionStatus(
+          extensionId,
+          ExtensionStatus.Failed,
+          result.error
+        );
+        vscode.window.showErrorMessage(
+          `Failed to install ${extensionId}@${version}: ${result.error}`
+        );
+      }
+    }
+  );
+
+  // Helper to locate extensions.json of a workspace folder (asks which
+  // folder in multi-root workspaces)
+  async function pickRecommendationsFile(): Promise<string | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+      vscode.window.showWarningMessage("Open a workspace folder first.");
+      return undefined;
+    }
+    const folder =
+      folders.length === 1
+        ? folders[0]
+        : await vscode.window.showWorkspaceFolderPick({
+            placeHolder: `Select the folder whose ${RECOMMENDATIONS_FILE} to use`,
+          });
+    return folder && path.join(folder.uri.fsPath, RECOMMENDATIONS_FILE);
+  }
+
+  // Register loadRecommendations command (.vscode/extensions.json into the tree)
+  const loadRecommendationsCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.loadRecommendations",
+    async () => {
+      const file = await pickRecommendationsFile();
+      if (!file) {
+        return;
+      }
+      if (!fs.existsSync(file)) {
+        vscode.window.showWarningMessage(
+          `No ${RECOMMENDATIONS_FILE} found in this folder.`
+        );
+        return;
+      }
+
+      try {
+        const recommendations = parseRecommendations(
+          fs.readFileSync(file, "utf8")
+        );
+        const installed = getInstalledExtensionData();
+        const installedById = new Map(
+          installed.map((ext) => [ext.id.toLowerCase(), ext])
+        );
+        // Recommendations carry no versions; borrow names from installed copies
+        const extensions = recommendations.recommendations.map((id) => {
+          const data = installedById.get(id.toLowerCase());
+          return data ? { ...data, version: undefined } : { id };
+        });
+
+        extensionTreeProvider.loadExtensions(
+          extensions,
+          installed,
+          recommendations.unwantedRecommendations
+        );
+        vscode.window.showInformationMessage(
+          `Loaded ${extensions.length} recommendations and ${recommendations.unwantedRecommendations.length} unwanted recommendations.`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error loading recommendations: ${error}`
+        );
+      }
+    }
+  );
+
+  // Register exportRecommendations command (checked items into extensions.json)
+  const exportRecommendationsCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.exportRecommendations",
+    async () => {
+      const checked = extensionTreeProvider
+        .getSelectedExtensions()
+        .filter((item) => item.isExtension);
+      if (checked.length === 0) {
+        vscode.window.showWarningMessage("No extensions selected.");
+        return;
+      }
+      const file = await pickRecommendationsFile();
+      if (!file) {
+        return;
+      }
+
+      try {
+        const currentContent = fs.existsSync(file)
+          ? fs.readFileSync(file, "utf8")
+          : "";
+        const merge = mergeRecommendations(currentContent, {
+          recommendations: checked
+            .filter((item) => !item.unwanted)
+            .map((item) => item.extensionData.id),
+          unwantedRecommendations: checked
+            .filter((item) => item.unwanted)
+            .map((item) => item.extensionData.id),
+        });
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, merge.text);
+
+        const document = await vscode.workspace.openTextDocument(file);
+        await vscode.window.showTextDocument(document);
+        vscode.window.showInformationMessage(
+          `Updated ${RECOMMENDATIONS_FILE}: ${
+            merge.added.length
+          } recommendations added${
+            merge.addedUnwanted.length > 0
+              ? `, ${merge.addedUnwanted.length} unwanted added`
+              : ""
+          }.`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error writing recommendations: ${error}`
+        );
+      }
+    }
+  );
+
+  context.subscriptions.push(
+    treeView,
+    loadFileCommand,
+    installSelectedCommand,
+    selectAllCommand,
+    deselectAllCommand,
+    reportView,
+    retryFailedCommand,
+    showLastReportCommand,
+    openReportCommand,
+    exportReportCommand,
+    filterTreeCommand,
+    clearFilterCommand,
+    groupByCommand,
+    sortByCommand,
+    selectVisibleCommand,
+    deselectVisibleCommand,
+    showErrorCommand,
+    setVersionPolicyCommand,
+    matchFileVersionCommand,
+    selectGroupCommand,
+    deselectGroupCommand,
+    syncToFileCommand,
+    addToSyncAllowListCommand,
+    previewSettingsCommand,
+    restoreSettingsBackupCommand,
+    loadRecommendationsCommand,
+    exportRecommendationsCommand,
+    checkAvailabilityCommand
+  );
+
+  // Helper to gather everything an export contains. Returns undefined if
+  // the user cancels the redaction review.
+  async function collectExportData(): Promise<ExportData | undefined> {
+    // Get the list of installed extensions
+    const extensionList = getInstalledExtensionData();
+
+    // Get Settings
+    let settingsData = {};
+    const settingsPath = getSettingsPath();
+    console.log(`Debug: calculated settingsPath: ${settingsPath}`);
+    const outputChannel = vscode.window.createOutputChannel(
+      "Extension Manager Debug"
+    );
+
+    try {
+      if (fs.existsSync(settingsPath)) {
+        outputChannel.appendLine(`Found settings.json at: ${settingsPath}`);
+        const content = fs.readFileSync(settingsPath, "utf8");
+        settingsData = jsonc.parse(content);
+        outputChannel.appendLine(
+          `Read ${Object.keys(settingsData).length} settings.`
+        );
+      } else {
+        outputChannel.appendLine(
+          `WARNING: settings.json NOT found at: ${settingsPath}`
+        );
+        vscode.window.showWarningMessage(
+          `Could not find settings.json at: ${settingsPath}. If you are in Debug mode, this is expected (separate profile).`
+        );
+      }
+    } catch (e) {
+      console.error("Failed to read settings.json", e);
+      outputChannel.appendLine(`Error reading settings.json: ${e}`);
+      vscode.window.showErrorMessage(`Error reading settings.json: ${e}`);
+    }
+    // Strip secrets and machine-specific values before writing
+    const redactionConfig = vscode.workspace.getConfiguration(
+      "extensionManager.redaction"
+    );
+    const redact = redactionConfig.get<boolean>("enabled", true);
+    if (redact) {
+      const rules = buildRedactionRules(
+        redactionConfig.get<string[]>("keyPatterns", []),
+        redactionConfig.get<string[]>("valuePatterns", []),
+        os.homedir(),
+        (pattern) =>
+          outputChannel.appendLine(
+            `Ignoring invalid redaction pattern: ${pattern}`
+          )
+      );
+      const findings = findRedactions(settingsData, rules);
+      if (findings.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          findings.map((finding) => ({
+            label: finding.label,
+            description: finding.reason,
+            detail: `→ ${JSON.stringify(finding.replacement)}`,
+            picked: true,
+            finding,
+          })),
+          {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: `Review ${findings.length} values to redact (uncheck to export as-is)`,
+          }
+        );
+        if (!picked) {
+          return;
+        }
+        settingsData = applyRedactions(
+          settingsData,
+          picked.map((p) => p.finding)
+        );
+        outputChannel.appendLine(`Redacted ${picked.length} values.`);
+      }
+    }
+
+    // Get Keybindings
+    let keybindingsData: Keybinding[] | undefined;
+    const keybindingsPath = getKeybindingsPath();
+    try {
+      if (fs.existsSync(keybindingsPath)) {
+        keybindingsData = parseKeybindings(
+          fs.readFileSync(keybindingsPath, "utf8")
+        );
+        outputChannel.appendLine(`Read ${keybindingsData.length} keybindings.`);
+      }
+    } catch (e) {
+      outputChannel.appendLine(`Error reading keybindings.json: ${e}`);
+    }
+
+    // Get Snippets
+    const snippetsData = readSnippetFiles(getSnippetsDir());
+    outputChannel.appendLine(
+      `Read ${Object.keys(snippetsData).length} snippet files.`
+    );
+
+    // Show output channel briefly if empty
+    if (Object.keys(settingsData).length === 0) {
+      outputChannel.show();
+    }
+
+    return createExportData(
+      vscode.env.appName,
+      extensionList,
+      settingsData, // Include settings!
+      keybindingsData,
+      snippetsData,
+      !redact
+    );
+  }
+
+  // Register the offline bundle export command
+  const exportOfflineBundleCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.exportOfflineBundle",
+    async () => {
+      try {
+        const exportData = await collectExportData();
+        if (!exportData) {
+          return;
+        }
 
-            progress.report({
-              message: `Installing ${extensionId} (${i + 1}/${total})...`,
-              increment: (1 / total) * 90,
-            });
-            extensionTreeProvider.updateExtensionStatus(
-              extensionId,
-              ExtensionStatus.Installing
-            );
+        const picked = await vscode.window.showQuickPick(
+          exportData.extensions.map((ext) => ({
+            label: ext.displayName || ext.id,
+            description: `${ext.id}@${ext.version}`,
+            picked: true,
+            ext,
+          })),
+          {
+            canPickMany: true,
+            placeHolder: "Select the extensions to package into the bundle",
+          }
+        );
+        if (!picked || picked.length === 0) {
+          return;
+        }
 
-            outputChannel.appendLine(`Installing ${extensionId}...`);
-            const result = await installExtension(
-              extensionId,
-              cliPath,
-              outputChannel
-            );
+        const folder = await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          canSelectMany: false,
+          openLabel: "Export Bundle Here",
+        });
+        if (!folder || !folder[0]) {
+          return;
+        }
+        const bundleDir = folder[0].fsPath;
+
+        // The manifest carries settings too, so encrypt it like an export
+        const scope = vscode.workspace
+          .getConfiguration("extensionManager.export")
+          .get<string>("encryption", "none");
+        let passphrase: string | undefined;
+        if (scope === "settings" || scope === "file") {
+          passphrase = await askNewPassphrase();
+          if (passphrase === undefined) {
+            return;
+          }
+        }
 
-            if (result.success) {
-              installedCount++;
-              extensionTreeProvider.updateExtensionStatus(
-                extensionId,
-                ExtensionStatus.Success
-              );
-              outputChannel.appendLine(`Successfully installed ${extensionId}`);
-            } else {
-              errorCount++;
-              extensionTreeProvider.updateExtensionStatus(
-                extensionId,
-                ExtensionStatus.Failed,
-                result.error
-              );
-              outputChannel.appendLine(`Failed to install ${extensionId}`);
+        const outputChannel =
+          vscode.window.createOutputChannel("Extension Manager");
+        outputChannel.show();
+        outputChannel.appendLine(`Writing offline bundle to ${bundleDir}...`);
+
+        const bundled: ExtensionData[] = [];
+        let errorCount = 0;
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: "Exporting Offline Bundle",
+            cancellable: true,
+          },
+          async (progress, token) => {
+            for (const { ext } of picked) {
+              if (token.isCancellationRequested) {
+                outputChannel.appendLine("Operation cancelled.");
+                break;
+              }
+              progress.report({
+                message: `Packaging ${ext.id}...`,
+                increment: (1 / picked.length) * 100,
+              });
+
+              // Disabled extensions are only known from the manifest
+              const extensionPath =
+                vscode.extensions.getExtension(ext.id)?.extensionPath ??
+                getDisabledExtensions().find(
+                  (entry) => entry.id.toLowerCase() === ext.id.toLowerCase()
+                )?.location;
+              try {
+                if (!extensionPath) {
+                  throw new Error("not installed");
+                }
+                const vsix = await packageInstalledExtension(
+                  extensionPath,
+                  ext,
+                  bundleDir
+                );
+                bundled.push({ ...ext, vsix });
+                outputChannel.appendLine(`Packaged ${ext.id} -> ${vsix}`);
+              } catch (e: any) {
+                errorCount++;
+                // Keep it in the manifest so it can still be installed online
+                bundled.push(ext);
+                outputChannel.appendLine(
+                  `Failed to package ${ext.id}: ${e.message || e}`
+                );
+              }
             }
           }
+        );
 
-          vscode.window.showInformationMessage(
-            `Process complete. Installed: ${installedCount} extensions. Settings applied: ${
-              settingsItem ? "Yes" : "No"
-            }.`
-          );
-        }
-      );
+        const manifest = { ...exportData, extensions: bundled };
+        fs.writeFileSync(
+          path.join(bundleDir, BUNDLE_MANIFEST),
+          JSON.stringify(
+            passphrase !== undefined
+              ? await encryptExport(
+                  manifest,
+                  passphrase,
+                  scope as EncryptionScope
+                )
+              : manifest,
+            null,
+            2
+          )
+        );
+        vscode.window.showInformationMessage(
+          `Offline bundle written to ${bundleDir}. Packaged: ${
+            bundled.length - errorCount
+          }, Failed: ${errorCount}.${
+            passphrase !== undefined ? ` Manifest ${scope} encrypted.` : ""
+          }`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error exporting offline bundle: ${error}`
+        );
+      }
     }
   );
 
-  // ... (Select All, Deselect All, Show Error remain mostly same, mostly logic in provider) ...
-  // ... Register export command logic to include settings ...
+  // Register exportScript command (install scripts, devcontainer, Dockerfile)
+  const exportScriptCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.exportScript",
+    async () => {
+      const target = await vscode.window.showQuickPick(
+        EXPORT_TARGETS.map((t) => ({
+          label: t.label,
+          description: t.description,
+          target: t,
+        })),
+        { placeHolder: "Select the export format" }
+      );
+      if (!target) {
+        return;
+      }
 
-  // Register selectAll command
-  const selectAllCommand = vscode.commands.registerCommand(
-    "vscode-extension-manager.selectAll",
-    () => {
-      extensionTreeProvider.selectAll();
-    }
-  );
+      // Whole install, or only what is checked in the sidebar
+      const installed = getInstalledExtensionData();
+      const checked = extensionTreeProvider
+        .getSelectedExtensions()
+        .filter((item) => item.isExtension && !item.unwanted);
+      let scope: "installed" | "checked" = "installed";
+      if (checked.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          [
+            {
+              label: "All Installed Extensions",
+              description: `${installed.length} extensions`,
+              value: "installed" as const,
+            },
+            {
+              label: "Checked Items",
+              description: `${checked.length} extensions in the sidebar`,
+              value: "checked" as const,
+            },
+          ],
+          { placeHolder: "Which extensions to include?" }
+        );
+        if (!picked) {
+          return;
+        }
+        scope = picked.value;
+      }
 
-  // Register deselectAll command
-  const deselectAllCommand = vscode.commands.registerCommand(
-    "vscode-extension-manager.deselectAll",
-    () => {
-      extensionTreeProvider.deselectAll();
-    }
-  );
+      const globalPolicy = getVersionPolicy();
+      const extensions: ScriptExtension[] =
+        scope === "checked"
+          ? checked.map((item) => ({
+              id: item.extensionData.id,
+              version: item.extensionData.version,
+              policy: item.versionPolicy || globalPolicy,
+            }))
+          : installed.map((ext) => ({
+              id: ext.id,
+              version: ext.version,
+              policy: globalPolicy,
+            }));
+      if (extensions.length === 0) {
+        vscode.window.showWarningMessage("No extensions to export.");
+        return;
+      }
 
-  // Register showError command
-  const showErrorCommand = vscode.commands.registerCommand(
-    "vscode-extension-manager.showError",
-    (item: ExtensionItem) => {
-      if (item.errorMessage) {
-        vscode.window.showErrorMessage(`Error: ${item.errorMessage}`);
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(
+          path.join(os.homedir(), target.target.fileName)
+        ),
+        filters: target.target.filters,
+      });
+      if (!uri) {
+        return;
       }
-    }
-  );
 
-  context.subscriptions.push(
-    treeView,
-    loadFileCommand,
-    installSelectedCommand,
-    selectAllCommand,
-    deselectAllCommand,
-    showErrorCommand
+      try {
+        fs.writeFileSync(
+          uri.fsPath,
+          renderExportTarget(
+            target.target.target,
+            extensions,
+            getScriptCLIName()
+          )
+        );
+        if (uri.fsPath.endsWith(".sh")) {
+          fs.chmodSync(uri.fsPath, 0o755);
+        }
+        vscode.window.showInformationMessage(
+          `Exported ${extensions.length} extensions as ${target.label} to ${uri.fsPath}`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error exporting script: ${error}`);
+      }
+    }
   );
 
   // Register the export command
@@ -357,63 +2632,11 @@ export function activate(context: vscode.ExtensionContext) {
     "vscode-extension-manager.exportExtensions",
     async () => {
       try {
-        // Get the list of installed extensions
-        const extensions = vscode.extensions.all;
-        const extensionList = extensions
-          .filter((ext) => {
-            const isSystem =
-              ext.packageJSON.isBuiltin ||
-              ext.id.startsWith("vscode.") ||
-              ext.id.startsWith("ms-vscode.") ||
-              ext.id.toLowerCase().includes("cursor");
-
-            return (
-              !ext.id.startsWith("vscode.") &&
-              !ext.id.startsWith("ms-vscode.js-debug") &&
-              !ext.id.startsWith("ms-vscode.references-view")
-            );
-          })
-          .map((ext) => ({
-            id: ext.id,
-            version: ext.packageJSON.version,
-            displayName: ext.packageJSON.displayName,
-            publisher: ext.packageJSON.publisher,
-            description: ext.packageJSON.description,
-          }));
-
-        // Get Settings
-        let settingsData = {};
-        const settingsPath = getSettingsPath();
-        console.log(`Debug: calculated settingsPath: ${settingsPath}`);
-        const outputChannel = vscode.window.createOutputChannel(
-          "Extension Manager Debug"
-        );
-
-        try {
-          if (fs.existsSync(settingsPath)) {
-            outputChannel.appendLine(`Found settings.json at: ${settingsPath}`);
-            const content = fs.readFileSync(settingsPath, "utf8");
-            settingsData = jsonc.parse(content);
-            outputChannel.appendLine(
-              `Read ${Object.keys(settingsData).length} settings.`
-            );
-          } else {
-            outputChannel.appendLine(
-              `WARNING: settings.json NOT found at: ${settingsPath}`
-            );
-            vscode.window.showWarningMessage(
-              `Could not find settings.json at: ${settingsPath}. If you are in Debug mode, this is expected (separate profile).`
-            );
-          }
-        } catch (e) {
-          console.error("Failed to read settings.json", e);
-          outputChannel.appendLine(`Error reading settings.json: ${e}`);
-          vscode.window.showErrorMessage(`Error reading settings.json: ${e}`);
-        }
-        // Show output channel briefly if empty
-        if (Object.keys(settingsData).length === 0) {
-          outputChannel.show();
+        const exportData = await collectExportData();
+        if (!exportData) {
+          return;
         }
+        const extensionList = exportData.extensions;
 
         // Ask for save location
         const uri = await vscode.window.showSaveDialog({
@@ -424,19 +2647,31 @@ export function activate(context: vscode.ExtensionContext) {
         });
 
         if (uri) {
-          const exportData = {
-            meta: {
-              exportedAt: new Date().toISOString(),
-              source: vscode.env.appName,
-            },
-            extensions: extensionList,
-            settings: settingsData, // Include settings!
-          };
+          // Optionally encrypt the settings or the whole file
+          const scope = vscode.workspace
+            .getConfiguration("extensionManager.export")
+            .get<string>("encryption", "none");
+          let fileData: object = exportData;
+          if (scope === "settings" || scope === "file") {
+            const passphrase = await askNewPassphrase();
+            if (passphrase === undefined) {
+              return;
+            }
+            fileData = await encryptExport(
+              exportData,
+              passphrase,
+              scope as EncryptionScope
+            );
+          }
 
           // Save the extensions list to a file
-          fs.writeFileSync(uri.fsPath, JSON.stringify(exportData, null, 2));
+          fs.writeFileSync(uri.fsPath, JSON.stringify(fileData, null, 2));
           vscode.window.showInformationMessage(
-            `Successfully exported ${extensionList.length} extensions and settings to ${uri.fsPath}`
+            `Successfully exported ${
+              extensionList.length
+            } extensions and settings to ${uri.fsPath}${
+              fileData !== exportData ? ` (${scope} encrypted)` : ""
+            }`
           );
         }
       } catch (error) {
@@ -455,21 +2690,48 @@ export function activate(context: vscode.ExtensionContext) {
           canSelectFiles: true,
           canSelectFolders: false,
           canSelectMany: false,
-          filters: {
-            JSON: ["json"],
-          },
+          filters: EXTENSION_LIST_FILTERS,
         });
 
         if (uri && uri[0]) {
-          // Read the extensions list
-          const fileContent = fs.readFileSync(uri[0].fsPath, "utf8");
-          const data = jsonc.parse(fileContent);
-
-          // Handle both old format (array) and new format (object with extensions property)
-          const extensions = Array.isArray(data) ? data : data.extensions || [];
-
-          if (!Array.isArray(extensions)) {
-            throw new Error("Invalid extensions file format");
+          // Read the extensions list (our own export or a recognized format)
+          const imported = await readExtensionList(uri[0].fsPath);
+          if (!imported) {
+            return;
+          }
+          const data = imported.data;
+          let extensions = data.extensions;
+
+          // With profiles, install only the chosen ones
+          const profiles = data.profiles ? resolveProfiles(data.profiles) : [];
+          if (profiles.length > 0) {
+            const pickedProfiles = await vscode.window.showQuickPick(
+              profiles.map((profile) => ({
+                label: profile.name,
+                description: `${profile.extensions.length} extensions`,
+                detail: profile.description,
+                profile,
+              })),
+              {
+                canPickMany: true,
+                placeHolder:
+                  "Select the profiles to install (none = all extensions)",
+              }
+            );
+            if (!pickedProfiles) {
+              return;
+            }
+            if (pickedProfiles.length > 0) {
+              addProfileExtensions(extensions, profiles);
+              const ids = new Set(
+                combineProfiles(
+                  pickedProfiles.map((p) => p.profile)
+                ).extensions.map((id) => id.toLowerCase())
+              );
+              extensions = extensions.filter((ext: ExtensionData) =>
+                ids.has(ext.id.toLowerCase())
+              );
+            }
           }
 
           // Show quick pick to confirm installation
@@ -479,85 +2741,31 @@ export function activate(context: vscode.ExtensionContext) {
           );
 
           if (confirmation === "Yes") {
-            // Determine CLI command
-            const config =
-              vscode.workspace.getConfiguration("extensionManager");
-            let cliCommand = config.get<string>("cliCommand") || "auto";
-            let cliPath = cliCommand;
-
-            if (cliCommand === "auto") {
-              try {
-                const appRoot = vscode.env.appRoot;
-                const binDir = path.join(appRoot, "bin");
-
-                // Check if bin directory exists (it should in standard installs)
-                if (fs.existsSync(binDir)) {
-                  const files = fs.readdirSync(binDir);
-
-                  // Look for potential CLI candidates.
-                  // Exclude 'code-tunnel', helpers, etc. if we can identify them.
-                  // Common names: code, code.cmd, cursor, cursor.cmd, codium, codium.cmd
-
-                  // Heuristic: valid CLIs usually don't have dashes (except maybe code-insiders) or match app name.
-                  // Let's filter for known patterns or simply take the one that matches appName best.
-                  const appName = vscode.env.appName || "";
-
-                  // Find best match
-                  let bestMatch = "";
-                  const candidates = files.filter((f) => {
-                    return (
-                      !f.startsWith(".") && // no hidden files
-                      !f.includes("tunnel")
-                    ); // exclude tunnel
-                  });
-
-                  if (candidates.length > 0) {
-                    // 1. Try to find exact match for known editors
-                    const match = candidates.find((f) => {
-                      const base = path.parse(f).name.toLowerCase();
-                      return appName.toLowerCase().includes(base);
-                    });
-
-                    if (match) {
-                      bestMatch = match;
-                    } else {
-                      // 2. Fallback to 'code' or 'cursor' if present
-                      const codeOrCursor = candidates.find((f) => {
-                        const name = path.parse(f).name.toLowerCase();
-                        return (
-                          name === "code" ||
-                          name === "cursor" ||
-                          name === "codium"
-                        );
-                      });
-                      // 3. Last resort: just take the first candidate
-                      bestMatch = codeOrCursor || candidates[0];
-                    }
-
-                    if (bestMatch) {
-                      cliPath = `"${path.join(binDir, bestMatch)}"`; // Quote for safety
-                    }
-                  }
-                } else {
-                  // If bin dir not found (e.g. dev environment sometimes?), fallback to PATH
-                  // But dev env usually has 'code' in path.
-                  console.warn("Bin directory not found at", binDir);
+            const globalPolicy = getVersionPolicy();
+
+            // Filter out extensions already installed at an acceptable
+            // version; entries that cannot be planned are reported as failed
+            const rejected: { ext: ExtensionData; error: string }[] = [];
+            const extensionsToInstall = extensions
+              .flatMap((ext: ExtensionData) => {
+                const localPackage = resolveLocalPackage(ext, uri[0].fsPath);
+                try {
+                  const plan = planInstall(
+                    ext.id,
+                    ext.version,
+                    getInstalledVersion(ext.id),
+                    globalPolicy,
+                    localPackage
+                  );
+                  return [{ ext, localPackage, plan }];
+                } catch (error: any) {
+                  rejected.push({ ext, error: error.message });
+                  return [];
                 }
-              } catch (e) {
-                console.error("Failed to resolve CLI path dynamically:", e);
-              }
-            }
-
-            // Filter out already installed extensions
-            const extensionsToInstall = extensions.filter((ext: any) => {
-              const isInstalled = vscode.extensions.getExtension(ext.id);
-              if (isInstalled) {
-                // console.log(`Skipping ${ext.id}: already installed.`);
-              }
-              return !isInstalled;
-            });
+              })
+              .filter(({ plan }) => plan.action === "install");
 
-            if (extensionsToInstall.length === 0) {
+            if (extensionsToInstall.length === 0 && rejected.length === 0) {
               vscode.window.showInformationMessage(
                 "All extensions are already installed."
               );
@@ -571,7 +2779,6 @@ export function activate(context: vscode.ExtensionContext) {
             outputChannel.appendLine(
               `Starting installation of ${extensionsToInstall.length} extensions...`
             );
-            outputChannel.appendLine(`CLI Command: ${cliPath}`);
 
             // Use Progress API
             await vscode.window.withProgress(
@@ -581,62 +2788,93 @@ export function activate(context: vscode.ExtensionContext) {
                 cancellable: true,
               },
               async (progress, token) => {
-                const total = extensionsToInstall.length;
-                let installedCount = 0;
-                let errorCount = 0;
-
-                for (let i = 0; i < total; i++) {
-                  if (token.isCancellationRequested) {
-                    outputChannel.appendLine("Operation cancelled by user.");
-                    break;
-                  }
-
-                  const ext = extensionsToInstall[i];
-                  const extensionId = ext.id;
-
-                  progress.report({
-                    message: `Installing ${extensionId} (${i + 1}/${total})...`,
-                    increment: (1 / total) * 100,
+                const run = getInstallRunOptions(token);
+                const installer = getInstaller(outputChannel, run);
+                outputChannel.appendLine(`Installer: ${installer.label}`);
+                const report = startReport(
+                  installer.dryRun
+                    ? "Import Extensions (dry run)"
+                    : "Import Extensions",
+                  installer.label
+                );
+                rejected.forEach(({ ext, error }) => {
+                  report.items.push({
+                    id: ext.id,
+                    action: "install",
+                    status: ExtensionStatus.Failed,
+                    durationMs: 0,
+                    error,
                   });
+                  outputChannel.appendLine(`Skipped ${ext.id}: ${error}`);
+                });
+                const total = extensionsToInstall.length;
+                let doneCount = 0;
+                const toDisable: ExtensionData[] = [];
 
-                  try {
-                    outputChannel.appendLine(`Installing ${extensionId}...`);
-
-                    // Execute command
-                    const command = `${cliPath} --install-extension ${extensionId} --force`; // Force to ensure fresh install or update if needed? Maybe not force by default to avoid issues.
-                    // Removing --force to be safe, standard install is fine.
-                    const cleanCommand = `${cliPath} --install-extension ${extensionId}`;
-
-                    await new Promise<void>((resolve, reject) => {
-                      cp.exec(cleanCommand, (error, stdout, stderr) => {
-                        if (error) {
-                          outputChannel.appendLine(
-                            `Error installing ${extensionId}: ${error.message}`
-                          );
-                          if (stderr)
-                            outputChannel.appendLine(`Stderr: ${stderr}`);
-                          reject(error);
-                        } else {
-                          if (stdout) outputChannel.appendLine(stdout);
-                          resolve();
-                        }
-                      });
-                    });
+                await runQueue(
+                  extensionsToInstall,
+                  run.concurrency,
+                  async ({ ext, plan, localPackage }) => {
+                    const extensionId = ext.id;
+                    const started = Date.now();
 
-                    installedCount++;
+                    const preRelease = usePreRelease(ext, plan.spec);
                     outputChannel.appendLine(
-                      `Successfully installed ${extensionId}`
+                      `Installing ${plan.spec}${
+                        preRelease ? " (pre-release)" : ""
+                      }...`
                     );
-                  } catch (err) {
-                    errorCount++;
-                    outputChannel.appendLine(
-                      `Failed to install ${extensionId}`
+                    const result = await installExtension(
+                      installer,
+                      ext,
+                      plan,
+                      localPackage
                     );
-                  }
-                }
 
-                vscode.window.showInformationMessage(
-                  `Installation complete. Installed: ${installedCount}, Failed: ${errorCount}. Check 'Extension Manager' output for details.`
+                    doneCount++;
+                    progress.report({
+                      message: `Installed ${extensionId} (${doneCount}/${total})`,
+                      increment: (1 / total) * 100,
+                    });
+                    report.items.push({
+                      id: extensionId,
+                      action: "install",
+                      spec: plan.spec,
+                      status: result.success
+                        ? ExtensionStatus.Success
+                        : ExtensionStatus.Failed,
+                      durationMs: Date.now() - started,
+                      error: result.error,
+                      stderr: result.success ? undefined : result.stderr,
+                    });
+
+                    if (result.success) {
+                      if (ext.disabled && !installer.dryRun) {
+                        toDisable.push(ext);
+                      }
+                      outputChannel.appendLine(
+                        `Successfully installed ${extensionId}`
+                      );
+                    } else {
+                      outputChannel.appendLine(
+                        `Failed to install ${extensionId}`
+                      );
+                    }
+                  },
+                  run.isCancelled
+                );
+
+                if (token.isCancellationRequested) {
+                  outputChannel.appendLine("Operation cancelled by user.");
+                }
+                offerToDisable(toDisable);
+
+                const summary = summarizeReport(report);
+                finishReport(
+                  report,
+                  token.isCancellationRequested,
+                  `Installation complete. Installed: ${summary.succeeded}, Failed: ${summary.failed}. Check 'Extension Manager' output for details.`,
+                  false // These extensions are not in the tree
                 );
               }
             );
@@ -648,7 +2886,356 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  context.subscriptions.push(exportCommand, importCommand);
+  // Helper to get the folder snapshots are written to
+  function getSnapshotsDir(): string {
+    const folder = vscode.workspace
+      .getConfiguration("extensionManager.snapshots")
+      .get<string>("folder", "")
+      .replace(/^~(?=$|[\\/])/, os.homedir());
+    return folder || path.join(context.globalStorageUri.fsPath, "snapshots");
+  }
+
+  // Helper to read this machine's extensions, settings, keybindings and
+  // snippets without prompting. Snapshots stay on this machine, so
+  // settings are not redacted.
+  function collectSnapshotData(): ExportData {
+    let keybindings: Keybinding[] | undefined;
+    const keybindingsPath = getKeybindingsPath();
+    if (fs.existsSync(keybindingsPath)) {
+      try {
+        keybindings = parseKeybindings(
+          fs.readFileSync(keybindingsPath, "utf8")
+        );
+      } catch {
+        keybindings = undefined;
+      }
+    }
+    return createExportData(
+      vscode.env.appName,
+      getInstalledExtensionData(),
+      parseSettings(readSettingsContent()),
+      keybindings,
+      readSnippetFiles(getSnippetsDir()),
+      true // Snapshots stay on this machine and are not redacted
+    );
+  }
+
+  // Helper to write a snapshot if anything changed since the last one
+  function takeSnapshot(): SnapshotInfo | undefined {
+    const config = vscode.workspace.getConfiguration(
+      "extensionManager.snapshots"
+    );
+    const retention: SnapshotRetention = {
+      maxCount: config.get<number>("maxCount", 50),
+      maxAgeDays: config.get<number>("maxAgeDays", 0),
+    };
+    const snapshot = saveSnapshot(
+      getSnapshotsDir(),
+      collectSnapshotData(),
+      retention
+    );
+    snapshotTreeProvider.refresh();
+    return snapshot;
+  }
+
+  // Snapshot in the background a little after extensions or settings
+  // change, so a burst of changes ends up in one snapshot
+  let snapshotTimer: NodeJS.Timeout | undefined;
+  function scheduleSnapshot() {
+    if (
+      !vscode.workspace
+        .getConfiguration("extensionManager.snapshots")
+        .get<boolean>("enabled", false)
+    ) {
+      return;
+    }
+    clearTimeout(snapshotTimer);
+    snapshotTimer = setTimeout(() => {
+      try {
+        takeSnapshot();
+      } catch (error) {
+        console.error("Failed to take a snapshot", error);
+      }
+    }, 5000);
+  }
+  scheduleSnapshot();
+
+  // Helper to pick a snapshot, leaving out `exclude`
+  async function pickSnapshot(
+    placeHolder: string,
+    exclude?: SnapshotInfo
+  ): Promise<SnapshotInfo | undefined> {
+    const picked = await vscode.window.showQuickPick(
+      listSnapshots(getSnapshotsDir())
+        .filter((snapshot) => snapshot.id !== exclude?.id)
+        .map((snapshot) => ({
+          label: new Date(snapshot.takenAt).toLocaleString(),
+          description: path.basename(snapshot.file),
+          snapshot,
+        })),
+      { placeHolder }
+    );
+    return picked?.snapshot;
+  }
+
+  const takeSnapshotCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.takeSnapshot",
+    () => {
+      try {
+        const snapshot = takeSnapshot();
+        vscode.window.showInformationMessage(
+          snapshot
+            ? `Saved a snapshot to ${snapshot.file}`
+            : "Nothing changed since the last snapshot."
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error taking snapshot: ${error}`);
+      }
+    }
+  );
+
+  // Register loadSnapshot command (a snapshot from the view, or picked)
+  const loadSnapshotCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.loadSnapshot",
+    async (item?: SnapshotItem) => {
+      const snapshot =
+        item?.snapshot || (await pickSnapshot("Snapshot to load"));
+      if (!snapshot) {
+        return;
+      }
+      try {
+        if (await loadFileIntoTree(snapshot.file)) {
+          await vscode.commands.executeCommand("extensionManagerView.focus");
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error loading snapshot: ${error}`);
+      }
+    }
+  );
+
+  // Register compareSnapshots command: the two snapshots selected in the
+  // view, or one from the view and one picked
+  const compareSnapshotsCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.compareSnapshots",
+    async (item?: SnapshotItem, selected?: SnapshotItem[]) => {
+      let first: SnapshotInfo | undefined;
+      let second: SnapshotInfo | undefined;
+      if (selected && selected.length === 2) {
+        [first, second] = selected.map((s) => s.snapshot);
+      } else {
+        first =
+          item?.snapshot || (await pickSnapshot("First snapshot to compare"));
+        second = first && (await pickSnapshot("Compare with…", first));
+      }
+      if (!first || !second) {
+        return;
+      }
+      // Older on the left
+      const [before, after] =
+        first.takenAt < second.takenAt ? [first, second] : [second, first];
+      try {
+        const label = (snapshot: SnapshotInfo) =>
+          new Date(snapshot.takenAt).toLocaleString();
+        const document = await vscode.workspace.openTextDocument({
+          content: renderDiffMarkdown(
+            diffExports(readSnapshot(before), readSnapshot(after)),
+            label(before),
+            label(after)
+          ),
+          language: "markdown",
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+      } catch (error) {
+        vscode.window.showErrorMessage(`Error comparing snapshots: ${error}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(
+    snapshotView,
+    takeSnapshotCommand,
+    loadSnapshotCommand,
+    compareSnapshotsCommand,
+    vscode.extensions.onDidChange(() => scheduleSnapshot()),
+    vscode.workspace.onDidChangeConfiguration(() => scheduleSnapshot()),
+    { dispose: () => clearTimeout(snapshotTimer) }
+  );
+
+  // Helper to get the git working copy exports are shared through, asking
+  // the user to configure one if it is not set
+  async function getGitSyncTarget(): Promise<GitSyncTarget | undefined> {
+    const config = vscode.workspace.getConfiguration(
+      "extensionManager.gitSync"
+    );
+    const folder = config
+      .get<string>("folder", "")
+      .replace(/^~(?=$|[\\/])/, os.homedir());
+    if (!folder) {
+      const choice = await vscode.window.showWarningMessage(
+        "Set extensionManager.gitSync.folder to a git working copy to share exports through it.",
+        "Open Settings"
+      );
+      if (choice) {
+        vscode.commands.executeCommand(
+          "workbench.action.openSettings",
+          "extensionManager.gitSync"
+        );
+      }
+      return undefined;
+    }
+    return {
+      folder,
+      fileName: config.get<string>("fileName") || "extensions.json",
+    };
+  }
+
+  // Helper to open a Markdown summary of `diff`
+  async function showExportDiff(
+    diff: ExportDiff,
+    beforeLabel: string,
+    afterLabel: string
+  ) {
+    const document = await vscode.workspace.openTextDocument({
+      content: renderDiffMarkdown(diff, beforeLabel, afterLabel),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  // Register exportToGit command: export into the git working copy and
+  // commit with a message describing what changed
+  const exportToGitCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.exportToGit",
+    async () => {
+      const target = await getGitSyncTarget();
+      if (!target) {
+        return;
+      }
+      try {
+        const exportData = await collectExportData();
+        if (!exportData) {
+          return;
+        }
+
+        // Encrypt as Export Extensions does. An encrypted file keeps its
+        // passphrase and is never replaced with a plain one.
+        const scope = vscode.workspace
+          .getConfiguration("extensionManager.export")
+          .get<string>("encryption", "none");
+        let encryption: GitEncryption | undefined;
+        if (scope === "settings" || scope === "file") {
+          const passphrase = isTargetEncrypted(target)
+            ? await vscode.window.showInputBox({
+                prompt: `Passphrase of ${target.fileName} in ${target.folder}`,
+                password: true,
+                ignoreFocusOut: true,
+              })
+            : await askNewPassphrase();
+          if (passphrase === undefined) {
+            return;
+          }
+          encryption = { scope, passphrase };
+        } else if (isTargetEncrypted(target)) {
+          vscode.window.showErrorMessage(
+            `${target.fileName} in ${target.folder} is encrypted. Set extensionManager.export.encryption to "settings" or "file" to commit an encrypted export instead of replacing it with a plain one.`
+          );
+          return;
+        }
+
+        const pushCommand = vscode.workspace
+          .getConfiguration("extensionManager.gitSync")
+          .get<string>("pushCommand", "");
+        const result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Committing ${target.fileName}`,
+          },
+          async (progress) => {
+            const result = await commitExport(target, exportData, encryption);
+            if (result.committed && pushCommand) {
+              progress.report({ message: pushCommand });
+              await runGitCommand(target, pushCommand);
+            }
+            return result;
+          }
+        );
+        if (!result.committed) {
+          vscode.window.showInformationMessage(
+            `Nothing changed since the last export in ${target.folder}.`
+          );
+          return;
+        }
+        vscode.window.showInformationMessage(
+          `Committed ${target.fileName}: ${result.message!.split("\n")[0]}${
+            pushCommand ? " (pushed)" : ""
+          }`
+        );
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Error exporting to git: ${error.message || error}`
+        );
+      }
+    }
+  );
+
+  // Register pullAndApply command: pull the working copy, compare its
+  // export with what is installed and load it into the tree
+  const pullAndApplyCommand = vscode.commands.registerCommand(
+    "vscode-extension-manager.pullAndApply",
+    async () => {
+      const target = await getGitSyncTarget();
+      if (!target) {
+        return;
+      }
+      const pullCommand =
+        vscode.workspace
+          .getConfiguration("extensionManager.gitSync")
+          .get<string>("pullCommand") || "git pull --ff-only";
+      try {
+        const { file, updated } = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Running ${pullCommand}`,
+          },
+          () => pullExport(target, pullCommand)
+        );
+
+        // Tree items show the same differences item by item
+        const data = await loadFileIntoTree(file);
+        if (!data) {
+          return;
+        }
+        const diff = diffExports(collectSnapshotData(), data);
+        await vscode.commands.executeCommand("extensionManagerView.focus");
+
+        const summary = summarizeDiff(diff);
+        const choice = await vscode.window.showInformationMessage(
+          `${updated ? "Pulled new changes" : "Already up to date"}. ${
+            summary
+              ? `Compared with this machine: ${summary}. Check the items to apply and run Install Selected or Sync to File.`
+              : "This machine already matches the export."
+          }`,
+          ...(summary ? ["Show Changes"] : [])
+        );
+        if (choice) {
+          await showExportDiff(diff, "This machine", target.fileName);
+        }
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Error pulling from git: ${error.message || error}`
+        );
+      }
+    }
+  );
+
+  context.subscriptions.push(exportToGitCommand, pullAndApplyCommand);
+
+  context.subscriptions.push(
+    exportCommand,
+    importCommand,
+    exportOfflineBundleCommand,
+    exportScriptCommand
+  );
 }
 
 export function deactivate() {}
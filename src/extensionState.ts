@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+
+// One entry of the editor's own record of installed extensions
+// (<extensions dir>/extensions.json), which also lists disabled ones
+export interface ManifestEntry {
+  id: string;
+  version?: string;
+  preRelease: boolean;
+  location?: string; // Absolute extension folder
+}
+
+// True when the installed copy is on the pre-release channel, from the
+// metadata the editor stores with each extension
+export function isPreRelease(metadata: any): boolean {
+  return (
+    !!metadata && (!!metadata.preRelease || !!metadata.isPreReleaseVersion)
+  );
+}
+
+// Read <extensionsDir>/extensions.json, leaving out extensions marked for
+// removal in .obsolete. Returns an empty list if the file does not exist.
+export function readExtensionsManifest(extensionsDir: string): ManifestEntry[] {
+  const manifestPath = path.join(extensionsDir, "extensions.json");
+  if (!fs.existsSync(manifestPath)) {
+    return [];
+  }
+  const entries = jsonc.parse(fs.readFileSync(manifestPath, "utf8"));
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const obsoletePath = path.join(extensionsDir, ".obsolete");
+  const obsolete: { [folder: string]: boolean } = fs.existsSync(obsoletePath)
+    ? jsonc.parse(fs.readFileSync(obsoletePath, "utf8")) || {}
+    : {};
+
+  return entries
+    .filter(
+      (entry) =>
+        typeof entry?.identifier?.id === "string" &&
+        !obsolete[entry.relativeLocation]
+    )
+    .map((entry) => ({
+      id: entry.identifier.id,
+      version: entry.version,
+      preRelease: isPreRelease(entry.metadata),
+      location: entry.relativeLocation
+        ? path.join(extensionsDir, entry.relativeLocation)
+        : undefined,
+    }));
+}
+
+// Display details of an installed extension from its package.json
+export function readPackageDetails(location: string | undefined): {
+  displayName?: string;
+  publisher?: string;
+  description?: string;
+} {
+  try {
+    const packageJSON = JSON.parse(
+      fs.readFileSync(path.join(location!, "package.json"), "utf8")
+    );
+    // Unlocalized "%displayName%" placeholders are worse than nothing
+    const text = (value: any) =>
+      typeof value === "string" && !/^%.*%$/.test(value) ? value : undefined;
+    return {
+      displayName: text(packageJSON.displayName),
+      publisher: text(packageJSON.publisher),
+      description: text(packageJSON.description),
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,242 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+import { ExportData } from "./exportFormat.js";
+import {
+  ExportDiff,
+  VersionChange,
+  diffExports,
+  isEmptyDiff,
+  summarizeDiff,
+} from "./exportDiff.js";
+import { CommandResult, quoteArg, runCommand } from "./installQueue.js";
+import { migrateExport, validateExport } from "./exportSchema.js";
+import {
+  EncryptionScope,
+  decryptExport,
+  encryptExport,
+  isEncryptedExport,
+} from "./encryption.js";
+
+const GIT_TIMEOUT_MS = 120000;
+
+// A git working copy exports are shared through
+export interface GitSyncTarget {
+  folder: string;
+  fileName: string; // Relative to `folder`
+}
+
+// How to encrypt the committed export
+export interface GitEncryption {
+  scope: EncryptionScope;
+  passphrase: string;
+}
+
+export interface GitCommitResult {
+  committed: boolean; // False when the export matched the committed file
+  message?: string;
+  diff?: ExportDiff;
+}
+
+function git(folder: string, args: string): Promise<CommandResult> {
+  return runCommand(`git ${args}`, { cwd: folder, timeoutMs: GIT_TIMEOUT_MS });
+}
+
+// Run `command` in `folder`, throwing with git's output if it fails
+async function runInFolder(folder: string, command: string): Promise<string> {
+  const result = await runCommand(command, {
+    cwd: folder,
+    timeoutMs: GIT_TIMEOUT_MS,
+  });
+  if (!result.success) {
+    throw new Error(
+      `${command} failed: ${(result.stderr || result.error || "").trim()}`
+    );
+  }
+  return result.stdout;
+}
+
+// Throws unless `folder` is inside a git working copy
+export async function checkWorkingCopy(folder: string) {
+  if (!fs.existsSync(folder)) {
+    throw new Error(`${folder} does not exist`);
+  }
+  const result = await git(folder, "rev-parse --is-inside-work-tree");
+  if (!result.success || result.stdout.trim() !== "true") {
+    throw new Error(`${folder} is not a git working copy`);
+  }
+}
+
+// Whether the export in the working copy is encrypted
+export function isTargetEncrypted(target: GitSyncTarget): boolean {
+  return targetEncryption(target) !== undefined;
+}
+
+// What the export in the working copy keeps encrypted, undefined if it is
+// not encrypted or there is none
+function targetEncryption(target: GitSyncTarget): EncryptionScope | undefined {
+  const file = path.join(target.folder, target.fileName);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  const content = fs.readFileSync(file, "utf8");
+  return isEncryptedExport(content)
+    ? jsonc.parse(content).meta.encryption.scope
+    : undefined;
+}
+
+// The export currently in the working copy, or undefined if there is none
+// or it cannot be parsed. An encrypted export is decrypted with
+// `passphrase`; throws if there is none or it is wrong, so an encrypted
+// file is never mistaken for a missing one.
+export async function readTargetExport(
+  target: GitSyncTarget,
+  passphrase?: string
+): Promise<ExportData | undefined> {
+  const file = path.join(target.folder, target.fileName);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  let content = fs.readFileSync(file, "utf8");
+  if (isEncryptedExport(content)) {
+    if (passphrase === undefined) {
+      throw new Error(
+        `${target.fileName} is encrypted and would be replaced by an unencrypted export`
+      );
+    }
+    content = await decryptExport(content, passphrase);
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return validateExport(migrateExport(parsed).data).data;
+  } catch {
+    return undefined;
+  }
+}
+
+// Commit message listing what changed, e.g.
+//   Update extensions: 1 added, 1 upgraded
+//
+//   Added:
+//   - publisher.name@1.0.0
+//   Upgraded:
+//   - publisher.other 1.0.0 -> 1.1.0
+// Nothing the file keeps encrypted under `scope` is listed.
+export function buildCommitMessage(
+  diff: ExportDiff,
+  data: ExportData,
+  isNew: boolean,
+  scope?: EncryptionScope
+): string {
+  if (isNew) {
+    return scope === "file"
+      ? `Add encrypted extensions export (from ${data.meta.source})\n`
+      : `Add extensions export (${data.extensions.length} extensions from ${data.meta.source})\n`;
+  }
+  if (scope === "file") {
+    return "Update encrypted extensions export\n";
+  }
+  const lines = [`Update extensions: ${summarizeDiff(diff)}`];
+  const list = (title: string, entries: string[]) => {
+    if (entries.length > 0) {
+      lines.push("", `${title}:`, ...entries.map((e) => `- ${e}`));
+    }
+  };
+  const change = (c: VersionChange) => `${c.id} ${c.from} -> ${c.to}`;
+  list(
+    "Added",
+    diff.added.map((ext) => `${ext.id}${ext.version ? `@${ext.version}` : ""}`)
+  );
+  list(
+    "Removed",
+    diff.removed.map((ext) => ext.id)
+  );
+  list("Upgraded", diff.upgraded.map(change));
+  list("Downgraded", diff.downgraded.map(change));
+  list("Enabled/disabled or channel changed", diff.stateChanged);
+  if (scope !== "settings") {
+    list("Settings changed", [
+      ...diff.settings.added,
+      ...diff.settings.removed,
+      ...diff.settings.changed,
+    ]);
+  }
+  return lines.join("\n") + "\n";
+}
+
+// Write `data` into the working copy, encrypted if `encryption` is given,
+// and commit it. Nothing is written when only meta (the export time) would
+// change. Throws rather than replace an encrypted file with a plain one.
+export async function commitExport(
+  target: GitSyncTarget,
+  data: ExportData,
+  encryption?: GitEncryption
+): Promise<GitCommitResult> {
+  await checkWorkingCopy(target.folder);
+  const previous = await readTargetExport(target, encryption?.passphrase);
+  const diff = diffExports(previous || {}, data);
+  // A file encrypted differently than requested is rewritten even if its
+  // content is the same, so turning encryption on takes effect right away
+  const encryptionChanged = targetEncryption(target) !== encryption?.scope;
+  if (previous && isEmptyDiff(diff) && !encryptionChanged) {
+    return { committed: false, diff };
+  }
+
+  const file = path.join(target.folder, target.fileName);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const fileData = encryption
+    ? await encryptExport(data, encryption.passphrase, encryption.scope)
+    : data;
+  fs.writeFileSync(file, JSON.stringify(fileData, null, 2));
+
+  // The message goes through a file so no shell quoting is needed
+  const message =
+    previous && isEmptyDiff(diff)
+      ? `Encrypt ${
+          encryption?.scope === "file" ? "the whole" : "the settings of the"
+        } extensions export\n`
+      : buildCommitMessage(diff, data, !previous, encryption?.scope);
+  const messageFile = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), "extension-manager-")),
+    "COMMIT_MSG"
+  );
+  fs.writeFileSync(messageFile, message);
+  try {
+    await runInFolder(target.folder, `git add -- ${quoteArg(target.fileName)}`);
+    await runInFolder(
+      target.folder,
+      `git commit -F ${quoteArg(messageFile)} -- ${quoteArg(target.fileName)}`
+    );
+  } finally {
+    fs.rmSync(path.dirname(messageFile), { recursive: true, force: true });
+  }
+  return { committed: true, message, diff };
+}
+
+// Run `command` (e.g. git push) in the working copy
+export async function runGitCommand(
+  target: GitSyncTarget,
+  command: string
+): Promise<string> {
+  return runInFolder(target.folder, command);
+}
+
+// Run the pull command. Returns the export file and whether HEAD moved.
+export async function pullExport(
+  target: GitSyncTarget,
+  pullCommand: string
+): Promise<{ file: string; updated: boolean }> {
+  await checkWorkingCopy(target.folder);
+  const head = async () =>
+    (await git(target.folder, "rev-parse HEAD")).stdout.trim();
+  const before = await head();
+  await runInFolder(target.folder, pullCommand);
+  const after = await head();
+
+  const file = path.join(target.folder, target.fileName);
+  if (!fs.existsSync(file)) {
+    throw new Error(`${target.fileName} is missing in ${target.folder}`);
+  }
+  return { file, updated: before !== after };
+}
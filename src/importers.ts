@@ -0,0 +1,356 @@
+import * as jsonc from "jsonc-parser";
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { ExportData } from "./exportFormat.js";
+import { parseSettings } from "./settings.js";
+import {
+  EXTENSION_ID,
+  EXTENSION_VERSION,
+  formatPath,
+  locatePath,
+  migrateExport,
+  validateExport,
+} from "./exportSchema.js";
+
+// Everything an importer can recover from a file. Our own export format
+// fills in all fields; foreign formats usually only have extensions and
+// sometimes settings.
+export type ImportedData = Partial<ExportData> & {
+  extensions: ExtensionData[];
+};
+
+export interface UnparsedLine {
+  line: number; // 1-based
+  column?: number; // 1-based, when known
+  text: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  format: string; // Name of the importer that read the file
+  data: ImportedData;
+  unparsed: UnparsedLine[];
+}
+
+export interface ExtensionListImporter {
+  format: string;
+  // `json` is the content parsed as JSON with comments, undefined if it is not JSON
+  detect(content: string, json: any): boolean;
+  parse(content: string, json: any): Omit<ImportResult, "format">;
+}
+
+// publisher.name, optionally followed by @version
+const EXTENSION_SPEC =
+  /^([A-Za-z0-9][\w-]*\.[A-Za-z0-9][\w.-]*)(?:@([\w.+-]+))?$/;
+
+function parseSpec(spec: string): ExtensionData | undefined {
+  const match = EXTENSION_SPEC.exec(spec.trim());
+  if (!match || (match[2] && !EXTENSION_VERSION.test(match[2]))) {
+    return undefined;
+  }
+  return { id: match[1], version: match[2] };
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isBlankOrComment(text: string): boolean {
+  return /^\s*(#.*|\/\/.*|REM\s.*)?$/i.test(text);
+}
+
+// 1-based line number of `offset` in `content`
+function lineAt(content: string, offset: number): number {
+  return content.substring(0, offset).split("\n").length;
+}
+
+// Our own export: a bare array or { meta, extensions: [...], settings, ... }.
+// Older formats are migrated, then checked against the current schema.
+const nativeImporter: ExtensionListImporter = {
+  format: "Extension Manager export",
+  detect: (_content, json) =>
+    Array.isArray(json)
+      ? json.every(isObject)
+      : isObject(json) &&
+        (isObject(json.meta) ||
+          (Array.isArray(json.extensions) &&
+            (json.extensions.length === 0 ||
+              !json.extensions.every((e: any) => typeof e === "string")))),
+  parse: (content, json) => {
+    const migration = migrateExport(json);
+    const validation = validateExport(migration.data);
+    return {
+      data: validation.data,
+      unparsed: validation.problems.map((problem) => {
+        const path = migration.sourcePath(problem.path);
+        return {
+          ...locatePath(content, path),
+          text: formatPath(path),
+          reason: problem.message,
+        };
+      }),
+    };
+  },
+};
+
+// Extension entries of Settings Sync: the "Settings Sync" extension's
+// { publisher, name, version } or the built-in sync's { identifier: { id } }
+function parseSyncEntries(entries: any[], unparsed: UnparsedLine[]) {
+  const extensions: ExtensionData[] = [];
+  entries.forEach((entry, index) => {
+    const id =
+      entry?.identifier?.id ||
+      (entry?.publisher && entry?.name
+        ? `${entry.publisher}.${entry.name}`
+        : undefined);
+    const version = entry?.version;
+    if (typeof id !== "string" || !EXTENSION_ID.test(id)) {
+      unparsed.push({
+        line: index + 1,
+        text: JSON.stringify(entry),
+        reason:
+          typeof id === "string"
+            ? `${JSON.stringify(id)} is not a publisher.name ID`
+            : "Entry has no extension ID",
+      });
+    } else if (
+      version !== undefined &&
+      (typeof version !== "string" || !EXTENSION_VERSION.test(version))
+    ) {
+      unparsed.push({
+        line: index + 1,
+        text: JSON.stringify(entry),
+        reason: `${JSON.stringify(version)} is not a version`,
+      });
+    } else {
+      extensions.push({
+        id,
+        version,
+        publisher: entry.metadata?.publisherDisplayName,
+        disabled: entry.disabled === true || undefined,
+        preRelease: entry.preRelease === true || undefined,
+      });
+    }
+  });
+  return extensions;
+}
+
+function isSyncEntryList(value: any): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (e) => isObject(e) && (isObject(e.identifier) || (e.publisher && e.name))
+    )
+  );
+}
+
+// Sync payloads wrap the list as a JSON string: { version, content: "[...]" }
+function unwrapSyncContent(value: any): any {
+  if (isObject(value) && typeof value.content === "string") {
+    try {
+      return JSON.parse(value.content);
+    } catch {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+const settingsSyncImporter: ExtensionListImporter = {
+  format: "Settings Sync extension list",
+  detect: (_content, json) => isSyncEntryList(unwrapSyncContent(json)),
+  parse: (_content, json) => {
+    const unparsed: UnparsedLine[] = [];
+    const extensions = parseSyncEntries(unwrapSyncContent(json), unparsed);
+    return { data: { extensions }, unparsed };
+  },
+};
+
+// A gist as returned by the GitHub API: { files: { "extensions.json": { content }, ... } }
+const gistImporter: ExtensionListImporter = {
+  format: "Settings Sync gist",
+  detect: (_content, json) =>
+    isObject(json) &&
+    isObject(json.files) &&
+    Object.keys(json.files).some((name) => /^extensions(\.json)?$/i.test(name)),
+  parse: (_content, json) => {
+    const unparsed: UnparsedLine[] = [];
+    const fileContent = (pattern: RegExp): string | undefined => {
+      const name = Object.keys(json.files).find((n) => pattern.test(n));
+      const content = name ? json.files[name]?.content : undefined;
+      return typeof content === "string" ? content : undefined;
+    };
+
+    const extensionsContent = fileContent(/^extensions(\.json)?$/i) || "[]";
+    const entries = unwrapSyncContent(jsonc.parse(extensionsContent));
+    const extensions = Array.isArray(entries)
+      ? parseSyncEntries(entries, unparsed)
+      : [];
+    if (!Array.isArray(entries)) {
+      unparsed.push({
+        line: 1,
+        text: extensionsContent.substring(0, 80),
+        reason: "extensions.json in the gist is not a list",
+      });
+    }
+
+    const settingsContent = fileContent(/^settings(\.json)?$/i);
+    const settings = settingsContent
+      ? parseSettings(settingsContent)
+      : undefined;
+    return { data: { extensions, settings }, unparsed };
+  },
+};
+
+// devcontainer.json: customizations.vscode.{extensions,settings}, or the
+// older top-level extensions/settings
+const devcontainerImporter: ExtensionListImporter = {
+  format: "devcontainer.json",
+  detect: (_content, json) => {
+    const vscodeSection = json?.customizations?.vscode;
+    const ids = isObject(vscodeSection)
+      ? vscodeSection.extensions
+      : json?.extensions;
+    return (
+      isObject(json) &&
+      Array.isArray(ids) &&
+      ids.every((id: any) => typeof id === "string")
+    );
+  },
+  parse: (content, json) => {
+    const vscodeSection = isObject(json.customizations?.vscode)
+      ? json.customizations.vscode
+      : json;
+    const unparsed: UnparsedLine[] = [];
+    const extensions: ExtensionData[] = [];
+    (vscodeSection.extensions as string[]).forEach((spec) => {
+      const line = lineAt(content, Math.max(0, content.indexOf(`"${spec}"`)));
+      const extension = parseSpec(spec);
+      if (spec.startsWith("-")) {
+        unparsed.push({
+          line,
+          text: spec,
+          reason: "Excludes an extension added by a feature",
+        });
+      } else if (extension) {
+        extensions.push(extension);
+      } else {
+        unparsed.push({ line, text: spec, reason: "Not an extension ID" });
+      }
+    });
+    const settings = isObject(vscodeSection.settings)
+      ? vscodeSection.settings
+      : undefined;
+    return { data: { extensions, settings }, unparsed };
+  },
+};
+
+// Shell or PowerShell scripts with `code --install-extension <id>` lines
+const INSTALL_FLAG = /--install-extension(?:=|\s+)(["']?)([^\s"';&|]+)\1/g;
+
+const shellScriptImporter: ExtensionListImporter = {
+  format: "install script",
+  detect: (content, json) =>
+    json === undefined && /--install-extension\b/.test(content),
+  parse: (content) => {
+    const unparsed: UnparsedLine[] = [];
+    const extensions: ExtensionData[] = [];
+    content.split(/\r?\n/).forEach((text, index) => {
+      if (!/--install-extension\b/.test(text) || /^\s*#/.test(text)) {
+        return;
+      }
+      const matches = Array.from(text.matchAll(INSTALL_FLAG));
+      if (matches.length === 0) {
+        unparsed.push({
+          line: index + 1,
+          text,
+          reason: "No extension after --install-extension",
+        });
+      }
+      matches.forEach((match) => {
+        const extension = parseSpec(match[2]);
+        if (extension) {
+          extensions.push(extension);
+        } else {
+          unparsed.push({
+            line: index + 1,
+            text,
+            reason: match[2].endsWith(".vsix")
+              ? `Local package ${match[2]} cannot be imported`
+              : `"${match[2]}" is not an extension ID`,
+          });
+        }
+      });
+    });
+    return { data: { extensions }, unparsed };
+  },
+};
+
+// Output of `code --list-extensions [--show-versions]`: one ID per line
+const extensionListImporter: ExtensionListImporter = {
+  format: "extension ID list",
+  detect: (content, json) =>
+    json === undefined &&
+    content
+      .split(/\r?\n/)
+      .some((text) => !isBlankOrComment(text) && parseSpec(text)),
+  parse: (content) => {
+    const unparsed: UnparsedLine[] = [];
+    const extensions: ExtensionData[] = [];
+    content.split(/\r?\n/).forEach((text, index) => {
+      if (isBlankOrComment(text)) {
+        return;
+      }
+      const extension = parseSpec(text);
+      if (extension) {
+        extensions.push(extension);
+      } else {
+        unparsed.push({
+          line: index + 1,
+          text,
+          reason: "Not an extension ID",
+        });
+      }
+    });
+    return { data: { extensions }, unparsed };
+  },
+};
+
+// Tried in order; the first importer whose `detect` matches reads the file
+const importers: ExtensionListImporter[] = [
+  gistImporter,
+  settingsSyncImporter,
+  nativeImporter,
+  devcontainerImporter,
+  shellScriptImporter,
+  extensionListImporter,
+];
+
+// Add an importer that is tried before the built-in ones
+export function registerImporter(importer: ExtensionListImporter) {
+  importers.unshift(importer);
+}
+
+// Detect the format of `content` and read it. Throws if no importer
+// recognizes the file.
+export function importExtensionList(content: string): ImportResult {
+  const errors: jsonc.ParseError[] = [];
+  const parsed = jsonc.parse(content, errors, { allowTrailingComma: true });
+  const json = errors.length === 0 ? parsed : undefined;
+
+  const importer = importers.find((i) => i.detect(content, json));
+  if (!importer) {
+    // Broken JSON is more likely than an unknown format
+    if (errors.length > 0 && /^\s*[[{]/.test(content)) {
+      const details = errors.slice(0, 5).map((error) => {
+        const before = content.substring(0, error.offset).split("\n");
+        return `${jsonc.printParseErrorCode(error.error)} at line ${
+          before.length
+        }, column ${before[before.length - 1].length + 1}`;
+      });
+      throw new Error(`Invalid JSON: ${details.join("; ")}`);
+    }
+    throw new Error("Unrecognized extensions file format");
+  }
+  return { format: importer.format, ...importer.parse(content, json) };
+}
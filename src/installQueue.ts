@@ -0,0 +1,171 @@
+import * as cp from "child_process";
+
+export interface CommandResult {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  error?: string;
+}
+
+export interface RunCommandOptions {
+  timeoutMs?: number; // Kill the command after this long (0 = no limit)
+  processes?: Set<cp.ChildProcess>; // Running commands, for cancellation
+  cwd?: string;
+}
+
+// Kill a shell command together with whatever it started (the editor CLI
+// spawns its own child process, so killing the shell alone is not enough)
+export function killProcessTree(child: cp.ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+  try {
+    if (process.platform === "win32") {
+      cp.exec(`taskkill /pid ${child.pid} /T /F`);
+    } else {
+      // Negative pid: the whole process group created by `detached`
+      process.kill(-child.pid, "SIGTERM");
+    }
+  } catch {
+    child.kill();
+  }
+}
+
+// Quote one argument for the platform's shell. Plain words are left as is.
+export function quoteArg(value: string): string {
+  if (/^[\w@+=:,./-]+$/.test(value)) {
+    return value;
+  }
+  return process.platform === "win32"
+    ? `"${value.replace(/"/g, '""')}"`
+    : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// Run a command, collecting its output. A string runs through the shell;
+// an argv array (program first) runs without one, so its arguments are
+// never interpreted. Windows needs the shell for .cmd wrappers such as
+// code.cmd, so the arguments are quoted there instead.
+export function runCommand(
+  command: string | string[],
+  options: RunCommandOptions = {}
+): Promise<CommandResult> {
+  const display = Array.isArray(command)
+    ? command.map(quoteArg).join(" ")
+    : command;
+  return new Promise((resolve) => {
+    const spawnOptions: cp.SpawnOptions = {
+      cwd: options.cwd,
+      detached: process.platform !== "win32",
+      windowsHide: true,
+    };
+    const child =
+      Array.isArray(command) && process.platform !== "win32"
+        ? cp.spawn(command[0], command.slice(1), spawnOptions)
+        : cp.spawn(display, { ...spawnOptions, shell: true });
+    options.processes?.add(child);
+
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    child.stdout?.on("data", (chunk) => (stdout += chunk));
+    child.stderr?.on("data", (chunk) => (stderr += chunk));
+
+    const timer =
+      options.timeoutMs && options.timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            killProcessTree(child);
+          }, options.timeoutMs)
+        : undefined;
+
+    const finish = (result: CommandResult) => {
+      if (timer) clearTimeout(timer);
+      options.processes?.delete(child);
+      resolve(result);
+    };
+
+    child.on("error", (error) =>
+      finish({ success: false, stdout, stderr, error: error.message })
+    );
+    child.on("close", (code, signal) => {
+      if (timedOut) {
+        finish({
+          success: false,
+          stdout,
+          stderr,
+          error: `Command timed out after ${options.timeoutMs} ms`,
+        });
+      } else if (code === 0) {
+        finish({ success: true, stdout, stderr });
+      } else {
+        finish({
+          success: false,
+          stdout,
+          stderr,
+          error: `Command failed: ${display}${
+            signal ? ` (killed by ${signal})` : ` (exit code ${code})`
+          }\n${stderr}`.trim(),
+        });
+      }
+    });
+  });
+}
+
+// Failures worth another attempt: network hiccups, marketplace throttling,
+// timeouts. "Not found" or incompatibility errors are not retried.
+export function isTransientFailure(error: string | undefined): boolean {
+  return (
+    !!error &&
+    /ETIMEDOUT|ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|timed out|network|\b(429|500|502|503|504)\b/i.test(
+      error
+    )
+  );
+}
+
+// Run `attempt` until it succeeds, fails permanently or runs out of
+// retries, waiting baseDelayMs, 2x, 4x, ... between attempts
+export async function withRetries<
+  T extends { success: boolean; error?: string }
+>(
+  attempt: () => Promise<T>,
+  retries: number,
+  baseDelayMs: number,
+  isCancelled: () => boolean,
+  onRetry?: (attemptNumber: number, delayMs: number, error?: string) => void
+): Promise<T> {
+  let result = await attempt();
+  for (let i = 1; i <= retries; i++) {
+    if (result.success || !isTransientFailure(result.error) || isCancelled()) {
+      break;
+    }
+    const delayMs = baseDelayMs * Math.pow(2, i - 1);
+    onRetry?.(i, delayMs, result.error);
+    await new Promise((r) => setTimeout(r, delayMs));
+    if (isCancelled()) {
+      break;
+    }
+    result = await attempt();
+  }
+  return result;
+}
+
+// Process `items` with at most `concurrency` workers running at once.
+// No new items are started once `isCancelled` returns true.
+export async function runQueue<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  isCancelled: () => boolean
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (next < items.length && !isCancelled()) {
+        const index = next++;
+        await worker(items[index], index);
+      }
+    }
+  );
+  await Promise.all(runners);
+}
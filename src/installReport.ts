@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ExtensionStatus } from "./ExtensionTreeProvider.js";
+
+// Runs kept in global storage; older reports are deleted
+export const MAX_REPORTS = 20;
+
+export interface ReportItem {
+  id: string; // Extension ID, "settings", "keybindings" or "snippet:<file>"
+  action: "install" | "uninstall" | "disable" | "apply";
+  spec?: string; // What was passed to the CLI, e.g. publisher.name@1.2.3
+  status: ExtensionStatus;
+  durationMs: number;
+  error?: string;
+  stderr?: string; // CLI output on failure
+}
+
+// One run of Install Selected, Retry Failed, Import Extensions or Sync to
+// File
+export interface InstallReport {
+  id: string; // Also the file name in the reports folder
+  title: string; // "Install Selected", "Retry Failed", "Import Extensions", "Sync to File"
+  startedAt: string;
+  finishedAt?: string;
+  cliPath: string; // CLI command or installer backend used
+  cancelled: boolean;
+  items: ReportItem[];
+}
+
+export function startReport(title: string, installer: string): InstallReport {
+  const startedAt = new Date().toISOString();
+  return {
+    id: startedAt.replace(/[:.]/g, "-"),
+    title,
+    startedAt,
+    cliPath: installer,
+    cancelled: false,
+    items: [],
+  };
+}
+
+export function summarizeReport(report: InstallReport): {
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  removed: number;
+  toDisable: number;
+} {
+  const count = (status: ExtensionStatus) =>
+    report.items.filter((item) => item.status === status).length;
+  return {
+    succeeded: count(ExtensionStatus.Success),
+    failed: count(ExtensionStatus.Failed),
+    skipped: count(ExtensionStatus.AlreadyInstalled),
+    removed: count(ExtensionStatus.Removed),
+    toDisable: count(ExtensionStatus.ToDisable),
+  };
+}
+
+// e.g. "12 succeeded, 2 failed, 5 already installed"
+export function describeSummary(report: InstallReport): string {
+  const { succeeded, failed, skipped, removed, toDisable } =
+    summarizeReport(report);
+  return [
+    `${succeeded} succeeded`,
+    failed > 0 ? `${failed} failed` : "",
+    skipped > 0 ? `${skipped} already installed` : "",
+    removed > 0 ? `${removed} removed` : "",
+    toDisable > 0 ? `${toDisable} to disable` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export function renderReportMarkdown(report: InstallReport): string {
+  const cell = (text: string | undefined) =>
+    (text || "").split("\n")[0].replace(/\|/g, "\\|");
+  const lines = [
+    `# ${report.title} Report`,
+    "",
+    `- Started: ${report.startedAt}`,
+    `- Finished: ${report.finishedAt || "(did not finish)"}`,
+    `- Installer: \`${report.cliPath}\``,
+    `- Result: ${describeSummary(report)}`,
+  ];
+  if (report.cancelled) {
+    lines.push("- Cancelled before all items ran");
+  }
+  lines.push(
+    "",
+    "| Item | Action | Status | Duration | Error |",
+    "| ---- | ------ | ------ | -------- | ----- |",
+    ...report.items.map(
+      (item) =>
+        `| \`${item.spec || item.id}\` | ${item.action} | ${
+          item.status
+        } | ${formatDuration(item.durationMs)} | ${cell(item.error)} |`
+    )
+  );
+
+  const failures = report.items.filter(
+    (item) => item.status === ExtensionStatus.Failed
+  );
+  if (failures.length > 0) {
+    lines.push("", "## Failures");
+    failures.forEach((item) => {
+      lines.push("", `### ${item.id}`, "", "```text");
+      lines.push(item.stderr || item.error || "(no output)", "```");
+    });
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function saveReport(dir: string, report: InstallReport) {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, `${report.id}.json`),
+    JSON.stringify(report, null, 2)
+  );
+
+  // Keep the newest MAX_REPORTS
+  fs.readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .reverse()
+    .slice(MAX_REPORTS)
+    .forEach((name) => fs.rmSync(path.join(dir, name), { force: true }));
+}
+
+// Saved reports, newest first. Unreadable files are skipped.
+export function loadReports(dir: string): InstallReport[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .reverse()
+    .flatMap((name) => {
+      try {
+        const report = JSON.parse(
+          fs.readFileSync(path.join(dir, name), "utf8")
+        );
+        return Array.isArray(report?.items) ? [report as InstallReport] : [];
+      } catch {
+        return [];
+      }
+    });
+}
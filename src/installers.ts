@@ -0,0 +1,141 @@
+import {
+  EditorCli,
+  cliArgv,
+  cliCommand,
+  installArgs,
+  uninstallArgs,
+} from "./editorCli.js";
+
+// Side of a remote window (Remote-SSH, WSL, containers) an extension runs
+// on. Local windows only have the local host.
+export enum ExtensionHost {
+  Local = "local",
+  Remote = "remote",
+}
+
+export interface InstallRequest {
+  extensionId: string;
+  spec: string; // "id", "id@version" or a .vsix path (see planInstall)
+  force: boolean; // Replace an installed copy with another version
+  preRelease: boolean;
+  localPackage?: string; // Unquoted .vsix path when installing from a bundle
+}
+
+export interface InstallerResult {
+  success: boolean;
+  error?: string;
+  stderr?: string;
+}
+
+// One way of installing extensions: the editor CLI, the editor's own
+// extension commands or a dry run
+export interface InstallerBackend {
+  name: string;
+  label: string; // Shown in logs and reports, e.g. the CLI command
+  hosts: ExtensionHost[]; // Hosts the backend can install into
+  dryRun?: boolean; // Nothing is actually changed
+  install(
+    request: InstallRequest,
+    host: ExtensionHost
+  ): Promise<InstallerResult>;
+  uninstall(extensionId: string, host: ExtensionHost): Promise<InstallerResult>;
+}
+
+// Backends chosen for one run, routing each extension to its host
+export interface Installer {
+  label: string;
+  dryRun: boolean;
+  install(
+    request: InstallRequest,
+    host: ExtensionHost
+  ): Promise<InstallerResult>;
+  uninstall(extensionId: string, host: ExtensionHost): Promise<InstallerResult>;
+}
+
+// The editor CLI, optionally with --user-data-dir / --extensions-dir. It
+// only reaches the host it runs on. `run` executes an argv array.
+export function createCliBackend(
+  cli: EditorCli,
+  host: ExtensionHost,
+  run: (argv: string[], label: string) => Promise<InstallerResult>
+): InstallerBackend {
+  return {
+    name: "cli",
+    label: cliCommand(cli),
+    hosts: [host],
+    install: (request) =>
+      run(
+        cliArgv(
+          cli,
+          installArgs(request.spec, request.force, request.preRelease)
+        ),
+        `installing ${request.spec}`
+      ),
+    uninstall: (extensionId) =>
+      run(
+        cliArgv(cli, uninstallArgs(extensionId)),
+        `uninstalling ${extensionId}`
+      ),
+  };
+}
+
+// Logs what would be installed or uninstalled and reports success
+export function createDryRunBackend(
+  log: (line: string) => void
+): InstallerBackend {
+  return {
+    name: "dryRun",
+    label: "dry run",
+    hosts: [ExtensionHost.Local, ExtensionHost.Remote],
+    dryRun: true,
+    install: async (request, host) => {
+      log(
+        `[dry run] Would install ${request.spec}${
+          request.force ? " (replacing the installed version)" : ""
+        }${request.preRelease ? " (pre-release)" : ""} on the ${host} host`
+      );
+      return { success: true };
+    },
+    uninstall: async (extensionId, host) => {
+      log(`[dry run] Would uninstall ${extensionId} on the ${host} host`);
+      return { success: true };
+    },
+  };
+}
+
+// Send each extension to `primary`, or to `fallback` when `primary` cannot
+// reach the extension's host
+export function routeInstaller(
+  primary: InstallerBackend,
+  fallback: InstallerBackend | undefined,
+  log: (line: string) => void
+): Installer {
+  const backendFor = (id: string, host: ExtensionHost) => {
+    if (primary.hosts.includes(host)) {
+      return primary;
+    }
+    if (fallback && fallback.hosts.includes(host)) {
+      log(`Routing ${id} to the ${host} host through the ${fallback.label}`);
+      return fallback;
+    }
+    return undefined;
+  };
+  const unreachable = (host: ExtensionHost) =>
+    Promise.resolve({
+      success: false,
+      error: `No installer can reach the ${host} host (${
+        primary.label
+      } only reaches ${primary.hosts.join(", ")})`,
+    });
+
+  return {
+    label: primary.label,
+    dryRun: !!primary.dryRun,
+    install: (request, host) =>
+      backendFor(request.extensionId, host)?.install(request, host) ??
+      unreachable(host),
+    uninstall: (extensionId, host) =>
+      backendFor(extensionId, host)?.uninstall(extensionId, host) ??
+      unreachable(host),
+  };
+}
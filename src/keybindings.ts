@@ -0,0 +1,100 @@
+import * as jsonc from "jsonc-parser";
+
+export interface Keybinding {
+  key: string;
+  command: string;
+  when?: string;
+  args?: any;
+}
+
+export interface KeybindingConflict {
+  incoming: Keybinding;
+  existing: Keybinding;
+}
+
+export interface KeybindingMergeResult {
+  text: string; // New keybindings.json content (comments preserved)
+  added: Keybinding[];
+  duplicates: Keybinding[]; // Already present, skipped
+  conflicts: KeybindingConflict[]; // Same key and `when`, different command
+}
+
+// "Ctrl+Shift+K" and "ctrl+shift+k" are the same chord
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeWhen(when: string | undefined): string {
+  return (when || "").replace(/\s+/g, "");
+}
+
+function sameBinding(a: Keybinding, b: Keybinding): boolean {
+  return (
+    normalizeKey(a.key) === normalizeKey(b.key) &&
+    a.command === b.command &&
+    normalizeWhen(a.when) === normalizeWhen(b.when) &&
+    JSON.stringify(a.args) === JSON.stringify(b.args)
+  );
+}
+
+// Parse keybindings.json content, dropping entries without key or command
+export function parseKeybindings(text: string): Keybinding[] {
+  const data = jsonc.parse(text);
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data.filter(
+    (k) => k && typeof k.key === "string" && typeof k.command === "string"
+  );
+}
+
+// Append `incoming` bindings to `targetText` as minimal edits so the
+// target's comments and formatting survive. Exact duplicates are skipped;
+// conflicting bindings are still added (later entries win) but reported.
+export function mergeKeybindings(
+  targetText: string,
+  incoming: Keybinding[]
+): KeybindingMergeResult {
+  let text = targetText.trim() ? targetText : "[\n]\n";
+  const existing = parseKeybindings(text);
+  const result: KeybindingMergeResult = {
+    text,
+    added: [],
+    duplicates: [],
+    conflicts: [],
+  };
+
+  const formattingOptions: jsonc.FormattingOptions = {
+    insertSpaces: !/^\t/m.test(text),
+    tabSize: 4,
+    eol: text.includes("\r\n") ? "\r\n" : "\n",
+  };
+
+  for (const binding of incoming) {
+    if (existing.some((e) => sameBinding(e, binding))) {
+      result.duplicates.push(binding);
+      continue;
+    }
+
+    const clash = existing.find(
+      (e) =>
+        normalizeKey(e.key) === normalizeKey(binding.key) &&
+        normalizeWhen(e.when) === normalizeWhen(binding.when) &&
+        e.command !== binding.command
+    );
+    if (clash) {
+      result.conflicts.push({ incoming: binding, existing: clash });
+    }
+
+    const edits = jsonc.modify(text, [-1], binding, {
+      isArrayInsertion: true,
+      formattingOptions,
+    });
+    text = jsonc.applyEdits(text, edits);
+    existing.push(binding);
+    result.added.push(binding);
+  }
+
+  result.text = text;
+  return result;
+}
@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createVSIX } from "vsce";
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+
+// Layout of an offline bundle folder:
+//   extensions.json      the regular export manifest
+//   vsix/<id>-<ver>.vsix one package per bundled extension
+export const BUNDLE_MANIFEST = "extensions.json";
+export const BUNDLE_VSIX_DIR = "vsix";
+
+// Package an installed extension directory into the bundle's vsix folder.
+// Returns the package path relative to the bundle folder.
+export async function packageInstalledExtension(
+  extensionPath: string,
+  extension: ExtensionData,
+  bundleDir: string
+): Promise<string> {
+  const fileName = `${extension.id}-${extension.version || "latest"}.vsix`;
+  const relativePath = `${BUNDLE_VSIX_DIR}/${fileName}`;
+  fs.mkdirSync(path.join(bundleDir, BUNDLE_VSIX_DIR), { recursive: true });
+
+  // vsce runs the vscode:prepublish script before packaging, so package a
+  // copy without scripts instead of running them in the extensions folder.
+  // __metadata is what the editor adds on install.
+  const copyDir = fs.mkdtempSync(path.join(os.tmpdir(), "extension-bundle-"));
+  try {
+    fs.cpSync(extensionPath, copyDir, {
+      recursive: true,
+      filter: (source) =>
+        path.relative(extensionPath, source) !== "node_modules",
+    });
+    const manifestPath = path.join(copyDir, "package.json");
+    const { scripts, __metadata, ...manifest } = JSON.parse(
+      fs.readFileSync(manifestPath, "utf8")
+    );
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+    await createVSIX({
+      cwd: copyDir,
+      packagePath: path.join(bundleDir, relativePath),
+      // Installed extensions are already built and bundled
+      dependencies: false,
+    });
+  } finally {
+    fs.rmSync(copyDir, { recursive: true, force: true });
+  }
+  return relativePath;
+}
+
+// Absolute path of an extension's bundled package, if it exists inside the
+// folder of the manifest at `manifestPath`. Paths leading out of that
+// folder, including through symbolic links, are ignored.
+export function resolveLocalPackage(
+  extension: ExtensionData,
+  manifestPath: string
+): string | undefined {
+  if (!extension.vsix) {
+    return undefined;
+  }
+  const folder = path.dirname(manifestPath);
+  const packagePath = path.resolve(folder, extension.vsix);
+  if (!fs.existsSync(packagePath) || !fs.statSync(packagePath).isFile()) {
+    return undefined;
+  }
+  const relative = path.relative(
+    fs.realpathSync(folder),
+    fs.realpathSync(packagePath)
+  );
+  return relative &&
+    relative.split(path.sep)[0] !== ".." &&
+    !path.isAbsolute(relative)
+    ? packagePath
+    : undefined;
+}
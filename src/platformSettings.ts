@@ -0,0 +1,186 @@
+// Machine the settings were exported on, recorded in the file's meta
+export interface SourcePlatform {
+  platform?: string; // process.platform: "darwin", "win32", "linux", ...
+  homeDir?: string;
+}
+
+// User-defined rewrite of string values, e.g. an interpreter path:
+//   { "from": "^/opt/homebrew/bin/", "to": "/usr/bin/", "sourcePlatform": "darwin" }
+export interface TranslationRule {
+  from: string; // Regular expression
+  to: string; // Replacement, may use $1...
+  sourcePlatform?: string;
+  targetPlatform?: string;
+}
+
+export interface SettingRewrite {
+  kind: "key" | "value"; // A copied platform key or a rewritten string
+  key: string; // Top-level setting key in the translated settings
+  label: string; // Readable path, e.g. "terminal.integrated.env.linux > PATH"
+  original: any;
+  rewritten: any;
+  reason: string;
+}
+
+// Suffix of platform-specific keys such as terminal.integrated.profiles.osx
+const PLATFORM_SUFFIXES: { [platform: string]: string } = {
+  darwin: "osx",
+  linux: "linux",
+  win32: "windows",
+};
+
+const PLATFORM_KEY = /^(terminal\.integrated\..+)\.(osx|linux|windows)$/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Apply `rewrite` to every string inside `value`, reporting each change
+function rewriteStrings(
+  value: any,
+  path: string[],
+  rewrite: (text: string) => string,
+  onChange: (path: string[], original: string, rewritten: string) => void
+): any {
+  if (typeof value === "string") {
+    const rewritten = rewrite(value);
+    if (rewritten !== value) {
+      onChange(path, value, rewritten);
+    }
+    return rewritten;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) =>
+      rewriteStrings(item, [...path, String(i)], rewrite, onChange)
+    );
+  }
+  if (value && typeof value === "object") {
+    const result: { [key: string]: any } = {};
+    Object.keys(value).forEach((k) => {
+      result[k] = rewriteStrings(value[k], [...path, k], rewrite, onChange);
+    });
+    return result;
+  }
+  return value;
+}
+
+// Compile rules that apply to this source/target pair. Invalid patterns are
+// reported through `onInvalid` and skipped.
+function compileRules(
+  rules: TranslationRule[],
+  sourcePlatform: string | undefined,
+  targetPlatform: string,
+  onInvalid?: (rule: TranslationRule) => void
+): { pattern: RegExp; to: string }[] {
+  return rules.flatMap((rule) => {
+    if (
+      typeof rule?.from !== "string" ||
+      (rule.sourcePlatform && rule.sourcePlatform !== sourcePlatform) ||
+      (rule.targetPlatform && rule.targetPlatform !== targetPlatform)
+    ) {
+      return [];
+    }
+    try {
+      return [{ pattern: new RegExp(rule.from, "g"), to: rule.to ?? "" }];
+    } catch {
+      onInvalid?.(rule);
+      return [];
+    }
+  });
+}
+
+// Rewrite settings exported on `source` for use on `target`:
+// 1. `terminal.integrated.*.<platform>` keys are copied to the target's
+//    suffix unless the file already has that key
+// 2. paths under the source home directory are moved to the target one,
+//    with separators converted between Windows and POSIX
+// 3. user rules are applied to every string value
+export function translateSettings(
+  settings: { [key: string]: any },
+  source: SourcePlatform,
+  target: { platform: string; homeDir: string },
+  rules: TranslationRule[] = [],
+  onInvalidRule?: (rule: TranslationRule) => void
+): { settings: { [key: string]: any }; rewrites: SettingRewrite[] } {
+  const rewrites: SettingRewrite[] = [];
+  const result: { [key: string]: any } = { ...settings };
+
+  // 1. Platform-specific keys
+  const sourceSuffix = source.platform && PLATFORM_SUFFIXES[source.platform];
+  const targetSuffix = PLATFORM_SUFFIXES[target.platform];
+  if (sourceSuffix && targetSuffix && sourceSuffix !== targetSuffix) {
+    Object.keys(settings).forEach((key) => {
+      const match = PLATFORM_KEY.exec(key);
+      if (!match || match[2] !== sourceSuffix) {
+        return;
+      }
+      const targetKey = `${match[1]}.${targetSuffix}`;
+      if (!(targetKey in settings)) {
+        result[targetKey] = settings[key];
+        rewrites.push({
+          kind: "key",
+          key: targetKey,
+          label: targetKey,
+          original: key,
+          rewritten: targetKey,
+          reason: `copied from ${key}`,
+        });
+      }
+    });
+  }
+
+  // 2. Home directory prefixes
+  const toWindows = target.platform === "win32";
+  const fromWindows = source.platform === "win32";
+  const homePattern =
+    source.homeDir && source.homeDir !== target.homeDir
+      ? new RegExp(
+          `${escapeRegExp(
+            source.homeDir
+          )}(?![^\\\\/\\s"';,])([\\\\/][^\\s"';,]*)?`,
+          fromWindows ? "gi" : "g"
+        )
+      : undefined;
+  const moveHome = (text: string) =>
+    homePattern
+      ? text.replace(homePattern, (_match, rest: string | undefined) => {
+          const remainder = (rest || "").replace(
+            /[\\/]/g,
+            toWindows ? "\\" : "/"
+          );
+          return `${target.homeDir}${remainder}`;
+        })
+      : text;
+
+  // 3. User rules
+  const compiled = compileRules(
+    rules,
+    source.platform,
+    target.platform,
+    onInvalidRule
+  );
+  const applyRules = (text: string) =>
+    compiled.reduce((t, rule) => t.replace(rule.pattern, rule.to), text);
+
+  Object.keys(result).forEach((key) => {
+    result[key] = rewriteStrings(
+      result[key],
+      [key],
+      (text) => applyRules(moveHome(text)),
+      (path, original, rewritten) =>
+        rewrites.push({
+          kind: "value",
+          key,
+          label: path.join(" > "),
+          original,
+          rewritten,
+          reason:
+            moveHome(original) !== original
+              ? "home directory"
+              : "translation rule",
+        })
+    );
+  });
+
+  return { settings: result, rewrites };
+}
@@ -0,0 +1,96 @@
+// A named set of extensions and settings overrides inside an export file:
+//
+//   "profiles": {
+//     "base":   { "extensions": ["esbenp.prettier-vscode"] },
+//     "python": { "inherits": "base", "extensions": ["ms-python.python"],
+//                 "settings": { "python.analysis.typeCheckingMode": "basic" } }
+//   }
+export interface ProfileDefinition {
+  description?: string;
+  inherits?: string | string[];
+  extensions?: string[];
+  settings?: { [key: string]: any };
+}
+
+export interface ResolvedProfile {
+  name: string;
+  description?: string;
+  extensions: string[]; // Own and inherited extension IDs
+  settings: { [key: string]: any }; // Inherited settings, overridden by own
+}
+
+// Flatten inheritance for every profile. Throws on unknown parents and
+// inheritance cycles so a broken file is reported when it is loaded.
+export function resolveProfiles(definitions: {
+  [name: string]: ProfileDefinition;
+}): ResolvedProfile[] {
+  const resolved = new Map<string, ResolvedProfile>();
+
+  const resolve = (name: string, chain: string[]): ResolvedProfile => {
+    const done = resolved.get(name);
+    if (done) {
+      return done;
+    }
+    const definition = definitions[name];
+    if (!definition) {
+      throw new Error(
+        `Profile "${
+          chain[chain.length - 1]
+        }" inherits unknown profile "${name}"`
+      );
+    }
+    if (chain.includes(name)) {
+      throw new Error(
+        `Profile inheritance cycle: ${[...chain, name].join(" -> ")}`
+      );
+    }
+
+    const parents =
+      typeof definition.inherits === "string"
+        ? [definition.inherits]
+        : definition.inherits || [];
+    const extensions: string[] = [];
+    let settings: { [key: string]: any } = {};
+    for (const parent of parents) {
+      const base = resolve(parent, [...chain, name]);
+      extensions.push(...base.extensions);
+      settings = { ...settings, ...base.settings };
+    }
+    extensions.push(...(definition.extensions || []));
+
+    const profile: ResolvedProfile = {
+      name,
+      description: definition.description,
+      extensions: dedupeIds(extensions),
+      settings: { ...settings, ...(definition.settings || {}) },
+    };
+    resolved.set(name, profile);
+    return profile;
+  };
+
+  return Object.keys(definitions).map((name) => resolve(name, []));
+}
+
+// Union of several profiles; later profiles win on conflicting settings
+export function combineProfiles(profiles: ResolvedProfile[]): {
+  extensions: string[];
+  settings: { [key: string]: any };
+} {
+  return {
+    extensions: dedupeIds(profiles.flatMap((p) => p.extensions)),
+    settings: Object.assign({}, ...profiles.map((p) => p.settings)),
+  };
+}
+
+// Extension IDs are case-insensitive; keep the first spelling
+function dedupeIds(ids: string[]): string[] {
+  const seen = new Set<string>();
+  return ids.filter((id) => {
+    const key = id.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
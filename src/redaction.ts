@@ -0,0 +1,201 @@
+type JsonPath = (string | number)[];
+
+export interface RedactionRules {
+  keyPatterns: RegExp[]; // Matched against every (nested) key
+  valuePatterns: RegExp[]; // Matched against every string value
+  homeDir?: string; // Prefix replaced by ${userHome}
+}
+
+export interface RedactionFinding {
+  path: JsonPath;
+  label: string; // Readable path, e.g. "http.proxy" or "terminal.env.osx > TOKEN"
+  reason: string;
+  original: any;
+  replacement: any;
+}
+
+export const HOME_PLACEHOLDER = "${userHome}";
+
+// "${redacted:http.proxyAuthorization}" marks a value stripped on export
+const REDACTED_PATTERN = /^\$\{redacted:[^}]*\}$/;
+
+const BUILTIN_KEY_PATTERNS = [
+  /token/i,
+  /secret/i,
+  /passw(or)?d/i,
+  /api[-_]?key/i,
+  /auth(orization)?$/i,
+  /credential/i,
+  /private[-_]?key/i,
+];
+
+const BUILTIN_VALUE_PATTERNS = [
+  /\bgh[pousr]_[A-Za-z0-9]{20,}/, // GitHub tokens
+  /\bsk-[A-Za-z0-9_-]{20,}/, // OpenAI-style keys
+  /\bAKIA[0-9A-Z]{16}\b/, // AWS access key IDs
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/, // Slack tokens
+  /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\./, // JWTs
+  /:\/\/[^/\s:@]+:[^/\s@]+@/, // Credentials inside URLs
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+];
+
+// Built-in rules plus user-configured regular expressions. Invalid user
+// patterns are reported through `onInvalid` and skipped.
+export function buildRedactionRules(
+  extraKeyPatterns: string[],
+  extraValuePatterns: string[],
+  homeDir?: string,
+  onInvalid?: (pattern: string) => void
+): RedactionRules {
+  const compile = (patterns: string[]) =>
+    patterns.flatMap((p) => {
+      try {
+        return [new RegExp(p, "i")];
+      } catch {
+        onInvalid?.(p);
+        return [];
+      }
+    });
+  return {
+    keyPatterns: BUILTIN_KEY_PATTERNS.concat(compile(extraKeyPatterns)),
+    valuePatterns: BUILTIN_VALUE_PATTERNS.concat(compile(extraValuePatterns)),
+    homeDir,
+  };
+}
+
+function pathLabel(path: JsonPath): string {
+  return path.map(String).join(" > ");
+}
+
+function redactedPlaceholder(path: JsonPath): string {
+  return `\${redacted:${pathLabel(path)}}`;
+}
+
+// Walk `settings` and list every value the rules would strip or rewrite
+export function findRedactions(
+  settings: any,
+  rules: RedactionRules
+): RedactionFinding[] {
+  const findings: RedactionFinding[] = [];
+
+  const visit = (value: any, path: JsonPath) => {
+    const key = path[path.length - 1];
+    // Only string values can hold secrets ("maxTokenizationLineLength": 20000)
+    if (
+      typeof key === "string" &&
+      typeof value === "string" &&
+      value !== "" &&
+      !REDACTED_PATTERN.test(value) &&
+      rules.keyPatterns.some((p) => p.test(key))
+    ) {
+      findings.push({
+        path,
+        label: pathLabel(path),
+        reason: "secret-looking key",
+        original: value,
+        replacement: redactedPlaceholder(path),
+      });
+      return;
+    }
+
+    if (typeof value === "string") {
+      if (REDACTED_PATTERN.test(value)) {
+        return;
+      }
+      if (rules.valuePatterns.some((p) => p.test(value))) {
+        findings.push({
+          path,
+          label: pathLabel(path),
+          reason: "secret-looking value",
+          original: value,
+          replacement: redactedPlaceholder(path),
+        });
+      } else if (rules.homeDir && value.includes(rules.homeDir)) {
+        findings.push({
+          path,
+          label: pathLabel(path),
+          reason: "home directory path",
+          original: value,
+          replacement: value.split(rules.homeDir).join(HOME_PLACEHOLDER),
+        });
+      }
+      return;
+    }
+
+    if (value && typeof value === "object") {
+      Object.keys(value).forEach((k) =>
+        visit(value[k], [...path, Array.isArray(value) ? Number(k) : k])
+      );
+    }
+  };
+
+  Object.keys(settings || {}).forEach((key) => visit(settings[key], [key]));
+  return findings;
+}
+
+function setAtPath(target: any, path: JsonPath, value: any) {
+  let node = target;
+  for (let i = 0; i < path.length - 1; i++) {
+    node = node[path[i]];
+  }
+  node[path[path.length - 1]] = value;
+}
+
+// Copy of `settings` with the chosen findings replaced by placeholders
+export function applyRedactions(
+  settings: any,
+  findings: RedactionFinding[]
+): any {
+  const copy = JSON.parse(JSON.stringify(settings));
+  findings.forEach((f) => setAtPath(copy, f.path, f.replacement));
+  return copy;
+}
+
+// "${redacted:...}" placeholders still present in imported settings
+export function findPlaceholders(
+  settings: any
+): { path: JsonPath; label: string }[] {
+  const found: { path: JsonPath; label: string }[] = [];
+  const visit = (value: any, path: JsonPath) => {
+    if (typeof value === "string" && REDACTED_PATTERN.test(value)) {
+      found.push({ path, label: pathLabel(path) });
+    } else if (value && typeof value === "object") {
+      Object.keys(value).forEach((k) =>
+        visit(value[k], [...path, Array.isArray(value) ? Number(k) : k])
+      );
+    }
+  };
+  Object.keys(settings || {}).forEach((key) => visit(settings[key], [key]));
+  return found;
+}
+
+// Resolve placeholders in `settings`: ${userHome} is expanded to `homeDir`,
+// each redacted value is asked for through `prompt`. Top-level keys whose
+// value is left unanswered are dropped rather than written literally.
+export async function resolvePlaceholders(
+  settings: { [key: string]: any },
+  homeDir: string,
+  prompt: (label: string) => PromiseLike<string | undefined>
+): Promise<{ [key: string]: any }> {
+  const expanded = JSON.parse(
+    JSON.stringify(settings, (_key, value) =>
+      typeof value === "string"
+        ? value.split(HOME_PLACEHOLDER).join(homeDir)
+        : value
+    )
+  );
+
+  for (const placeholder of findPlaceholders(expanded)) {
+    const topKey = placeholder.path[0] as string;
+    if (!(topKey in expanded)) {
+      continue; // Already dropped because of an earlier placeholder
+    }
+    const answer = await prompt(placeholder.label);
+    if (answer === undefined || answer === "") {
+      delete expanded[topKey];
+    } else {
+      setAtPath(expanded, placeholder.path, answer);
+    }
+  }
+  return expanded;
+}
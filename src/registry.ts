@@ -0,0 +1,95 @@
+import * as http from "http";
+import * as https from "https";
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+
+// Whether a registry can serve an extension at the version in the file
+export enum Availability {
+  Available = "available",
+  VersionDiffers = "versionDiffers", // Only other versions are published
+  Unavailable = "unavailable",
+}
+
+export interface AvailabilityResult {
+  availability: Availability;
+  registry: string; // Host that was asked
+  latestVersion?: string;
+  reason?: string;
+}
+
+// GET `url` and parse the JSON body. Resolves with the status code so
+// callers can tell "not found" apart from network failures, which reject.
+function getJson(
+  url: string,
+  timeoutMs: number
+): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith("https:") ? https : http;
+    const request = client.get(
+      url,
+      { headers: { Accept: "application/json" }, timeout: timeoutMs },
+      (response) => {
+        let data = "";
+        response.setEncoding("utf8");
+        response.on("data", (chunk) => (data += chunk));
+        response.on("end", () => {
+          let body: any;
+          try {
+            body = data ? JSON.parse(data) : undefined;
+          } catch {
+            body = undefined;
+          }
+          resolve({ status: response.statusCode || 0, body });
+        });
+      }
+    );
+    request.on("timeout", () =>
+      request.destroy(new Error(`Request timed out after ${timeoutMs} ms`))
+    );
+    request.on("error", reject);
+  });
+}
+
+// Ask a registry speaking the Open VSX API (open-vsx.org, a private mirror
+// or a local stand-in) for an extension. Rejects when the registry cannot
+// be reached, so an outage is not mistaken for a missing extension.
+export async function checkAvailability(
+  registryUrl: string,
+  extension: ExtensionData,
+  timeoutMs: number
+): Promise<AvailabilityResult> {
+  const base = registryUrl.replace(/\/+$/, "");
+  const registry = new URL(base).host;
+  const [namespace, ...rest] = extension.id.split(".");
+  const name = rest.join(".");
+
+  const { status, body } = await getJson(
+    `${base}/api/${encodeURIComponent(namespace)}/${encodeURIComponent(name)}`,
+    timeoutMs
+  );
+  if (status === 404 || (status === 200 && body?.error)) {
+    return {
+      availability: Availability.Unavailable,
+      registry,
+      reason: `Not published on ${registry}`,
+    };
+  }
+  if (status !== 200 || !body) {
+    throw new Error(`${registry} answered with HTTP ${status}`);
+  }
+
+  const latestVersion: string | undefined = body.version;
+  const versions = Object.keys(body.allVersions || {});
+  if (
+    !extension.version ||
+    extension.version === latestVersion ||
+    versions.includes(extension.version)
+  ) {
+    return { availability: Availability.Available, registry, latestVersion };
+  }
+  return {
+    availability: Availability.VersionDiffers,
+    registry,
+    latestVersion,
+    reason: `Version ${extension.version} is not published on ${registry}`,
+  };
+}
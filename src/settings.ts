@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+
+export enum SettingState {
+  New = "new",
+  Changed = "changed",
+  Identical = "identical",
+}
+
+// Group label for a setting key: "editor.fontSize" -> "editor.*",
+// language overrides such as "[python]" keep their own group
+export function settingGroup(key: string): string {
+  if (key.startsWith("[")) {
+    return key;
+  }
+  const dot = key.indexOf(".");
+  return dot === -1 ? key : `${key.substring(0, dot)}.*`;
+}
+
+// Structural equality that ignores object key order
+export function deepEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== "object" || typeof b !== "object" || !a || !b) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((k) => Object.prototype.hasOwnProperty.call(b, k)) &&
+    aKeys.every((k) => deepEqual(a[k], b[k]))
+  );
+}
+
+export function compareSetting(
+  key: string,
+  value: any,
+  currentSettings: { [key: string]: any }
+): SettingState {
+  if (!Object.prototype.hasOwnProperty.call(currentSettings, key)) {
+    return SettingState.New;
+  }
+  return deepEqual(currentSettings[key], value)
+    ? SettingState.Identical
+    : SettingState.Changed;
+}
+
+// Parse settings.json content, treating unreadable content as empty
+export function parseSettings(content: string): { [key: string]: any } {
+  const data = jsonc.parse(content);
+  return data && typeof data === "object" && !Array.isArray(data) ? data : {};
+}
+
+export interface SettingsBackup {
+  file: string; // Backup copy
+  settingsPath: string; // settings.json it was taken from
+  createdAt: string; // ISO timestamp
+}
+
+// Infer indentation and line endings so edits blend into the file
+function detectFormatting(content: string): jsonc.FormattingOptions {
+  const indent = /^([ \t]+)"/m.exec(content);
+  return {
+    insertSpaces: !indent || !indent[1].startsWith("\t"),
+    tabSize: indent && !indent[1].startsWith("\t") ? indent[1].length : 4,
+    eol: content.includes("\r\n") ? "\r\n" : "\n",
+  };
+}
+
+// Resulting settings.json content after applying `selected` on top of
+// `currentContent`. Keys are changed with minimal edits, so comments, key
+// order and formatting of the rest of the file are left untouched.
+export function buildSettingsContent(
+  currentContent: string,
+  selected: { [key: string]: any }
+): string {
+  let content = currentContent.trim() ? currentContent : "{\n}\n";
+  const formattingOptions = detectFormatting(content);
+
+  for (const key of Object.keys(selected)) {
+    // Setting keys contain dots, so the path is the whole key
+    const edits = jsonc.modify(content, [key], selected[key], {
+      formattingOptions,
+    });
+    content = jsonc.applyEdits(content, edits);
+  }
+  return content;
+}
+
+// Copy settings.json into `backupDir` under a timestamped name
+export function createSettingsBackup(
+  settingsPath: string,
+  backupDir: string
+): SettingsBackup | undefined {
+  if (!fs.existsSync(settingsPath)) {
+    return undefined;
+  }
+  const createdAt = new Date().toISOString();
+  fs.mkdirSync(backupDir, { recursive: true });
+  const file = path.join(
+    backupDir,
+    `settings-${createdAt.replace(/[:.]/g, "-")}.json`
+  );
+  fs.copyFileSync(settingsPath, file);
+  return { file, settingsPath, createdAt };
+}
@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ExportData } from "./exportFormat.js";
+import { migrateExport, validateExport } from "./exportSchema.js";
+import { deepEqual } from "./settings.js";
+
+// Snapshot files are regular exports named snapshot-<timestamp>.json, so
+// they can also be loaded or imported like any other export
+const SNAPSHOT_FILE = /^snapshot-[\dTZ-]+\.json$/;
+
+export interface SnapshotInfo {
+  id: string; // Timestamp part of the file name
+  file: string;
+  takenAt: string;
+}
+
+// How many snapshots to keep; 0 disables that limit
+export interface SnapshotRetention {
+  maxCount: number;
+  maxAgeDays: number;
+}
+
+// Snapshots in `dir`, newest first
+export function listSnapshots(dir: string): SnapshotInfo[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((name) => SNAPSHOT_FILE.test(name))
+    .sort()
+    .reverse()
+    .map((name) => {
+      const id = name.slice("snapshot-".length, -".json".length);
+      return {
+        id,
+        file: path.join(dir, name),
+        // 2026-10-19T12-30-00-000Z -> 2026-10-19T12:30:00.000Z
+        takenAt: id.replace(
+          /T(\d+)-(\d+)-(\d+)-(\d+)Z$/,
+          (_, h, m, s, ms) => `T${h}:${m}:${s}.${ms}Z`
+        ),
+      };
+    });
+}
+
+// Read a snapshot, migrated to the current format. Throws if the file
+// cannot be read or parsed.
+export function readSnapshot(snapshot: SnapshotInfo): ExportData {
+  const parsed = JSON.parse(fs.readFileSync(snapshot.file, "utf8"));
+  return validateExport(migrateExport(parsed).data).data;
+}
+
+// Everything but meta, which changes with every snapshot
+function sameContent(a: ExportData, b: ExportData): boolean {
+  const { meta: _a, ...restA } = a;
+  const { meta: _b, ...restB } = b;
+  return deepEqual(restA, restB);
+}
+
+// Write `data` as a new snapshot unless it matches the newest one, then
+// delete snapshots beyond `retention`. Returns the new snapshot, or
+// undefined if nothing changed.
+export function saveSnapshot(
+  dir: string,
+  data: ExportData,
+  retention: SnapshotRetention
+): SnapshotInfo | undefined {
+  const [latest] = listSnapshots(dir);
+  if (latest) {
+    try {
+      if (sameContent(readSnapshot(latest), data)) {
+        return undefined;
+      }
+    } catch {
+      // Unreadable latest snapshot: take a fresh one
+    }
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+  const id = data.meta.exportedAt.replace(/[:.]/g, "-");
+  fs.writeFileSync(
+    path.join(dir, `snapshot-${id}.json`),
+    JSON.stringify(data, null, 2)
+  );
+  pruneSnapshots(dir, retention);
+  return listSnapshots(dir).find((snapshot) => snapshot.id === id);
+}
+
+// Delete snapshots beyond the newest `maxCount` or older than `maxAgeDays`.
+// The newest snapshot is always kept.
+export function pruneSnapshots(dir: string, retention: SnapshotRetention) {
+  const cutoff = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  listSnapshots(dir)
+    .filter(
+      (snapshot, i) =>
+        i > 0 &&
+        ((retention.maxCount > 0 && i >= retention.maxCount) ||
+          (retention.maxAgeDays > 0 && Date.parse(snapshot.takenAt) < cutoff))
+    )
+    .forEach((snapshot) => fs.rmSync(snapshot.file, { force: true }));
+}
@@ -0,0 +1,40 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Snippet files keyed by file name, content kept verbatim (comments included)
+export type SnippetFiles = { [fileName: string]: string };
+
+export function isSnippetFile(fileName: string): boolean {
+  return fileName.endsWith(".json") || fileName.endsWith(".code-snippets");
+}
+
+// Read every snippet file in the User/snippets directory
+export function readSnippetFiles(snippetsDir: string): SnippetFiles {
+  const files: SnippetFiles = {};
+  if (!fs.existsSync(snippetsDir)) {
+    return files;
+  }
+  for (const fileName of fs.readdirSync(snippetsDir)) {
+    const filePath = path.join(snippetsDir, fileName);
+    if (isSnippetFile(fileName) && fs.statSync(filePath).isFile()) {
+      files[fileName] = fs.readFileSync(filePath, "utf8");
+    }
+  }
+  return files;
+}
+
+// "python.json" -> "python (imported).json", "python (imported 2).json", ...
+export function uniqueSnippetName(
+  snippetsDir: string,
+  fileName: string
+): string {
+  const ext = fileName.endsWith(".code-snippets")
+    ? ".code-snippets"
+    : path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - ext.length);
+  let candidate = `${base} (imported)${ext}`;
+  for (let i = 2; fs.existsSync(path.join(snippetsDir, candidate)); i++) {
+    candidate = `${base} (imported ${i})${ext}`;
+  }
+  return candidate;
+}
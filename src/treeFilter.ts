@@ -0,0 +1,85 @@
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+
+// How extension items are bucketed in the sidebar
+export enum TreeGrouping {
+  Status = "status", // Comparison groups ("Missing locally", ...)
+  Publisher = "publisher",
+  Category = "category",
+  None = "none", // Flat list
+}
+
+// Order of extension items within each group
+export enum TreeSort {
+  File = "file", // As listed in the loaded file
+  Name = "name",
+  Id = "id",
+  Publisher = "publisher",
+}
+
+// Filter, grouping and sort of the sidebar, persisted across reloads
+export interface TreeViewState {
+  filter: string;
+  grouping: TreeGrouping;
+  sort: TreeSort;
+}
+
+export const DEFAULT_VIEW_STATE: TreeViewState = {
+  filter: "",
+  grouping: TreeGrouping.Status,
+  sort: TreeSort.File,
+};
+
+// Fill in missing or outdated fields of a stored state
+export function normalizeViewState(stored: any): TreeViewState {
+  const state = stored && typeof stored === "object" ? stored : {};
+  return {
+    filter: typeof state.filter === "string" ? state.filter : "",
+    grouping: Object.values(TreeGrouping).includes(state.grouping)
+      ? state.grouping
+      : DEFAULT_VIEW_STATE.grouping,
+    sort: Object.values(TreeSort).includes(state.sort)
+      ? state.sort
+      : DEFAULT_VIEW_STATE.sort,
+  };
+}
+
+// Publisher part of the ID; the publisher field may hold a display name
+export function publisherOf(data: ExtensionData): string {
+  return data.id.split(".")[0].toLowerCase();
+}
+
+// True when every word of `filter` appears in the ID, name, publisher or
+// description (case-insensitive)
+export function matchesFilter(data: ExtensionData, filter: string): boolean {
+  const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return true;
+  }
+  const text = [data.id, data.displayName, data.publisher, data.description]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+  return words.every((word) => text.includes(word));
+}
+
+// Comparator for `sort`, or undefined to keep the file's order
+export function compareExtensions(
+  sort: TreeSort
+): ((a: ExtensionData, b: ExtensionData) => number) | undefined {
+  const byText =
+    (text: (data: ExtensionData) => string) =>
+    (a: ExtensionData, b: ExtensionData) =>
+      text(a).localeCompare(text(b), undefined, { sensitivity: "base" });
+  const byName = byText((data) => data.displayName || data.id);
+
+  switch (sort) {
+    case TreeSort.Name:
+      return byName;
+    case TreeSort.Id:
+      return byText((data) => data.id);
+    case TreeSort.Publisher:
+      return (a, b) => byText(publisherOf)(a, b) || byName(a, b);
+    default:
+      return undefined;
+  }
+}
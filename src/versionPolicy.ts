@@ -0,0 +1,136 @@
+import { ExtensionData } from "./ExtensionTreeProvider.js";
+import { EXTENSION_ID, EXTENSION_VERSION } from "./exportSchema.js";
+
+export enum VersionPolicy {
+  Exact = "exact",
+  Minimum = "minimum",
+  Latest = "latest",
+}
+
+export interface InstallPlan {
+  // "skip" when the installed copy already satisfies the policy
+  action: "install" | "skip";
+  // Argument for --install-extension ("id", "id@version" or a .vsix path)
+  spec: string;
+  // --force is required to replace an installed copy with another version
+  force: boolean;
+  reason?: string;
+}
+
+export function parseVersionPolicy(value: string | undefined): VersionPolicy {
+  switch (value) {
+    case VersionPolicy.Minimum:
+      return VersionPolicy.Minimum;
+    case VersionPolicy.Latest:
+      return VersionPolicy.Latest;
+    default:
+      return VersionPolicy.Exact;
+  }
+}
+
+// Compare two dotted version strings numerically (1.10.0 > 1.9.0).
+// Pre-release suffixes ("1.2.0-beta") sort before the plain release.
+export function compareVersions(a: string, b: string): number {
+  const [aMain, aPre] = a.split("-", 2);
+  const [bMain, bPre] = b.split("-", 2);
+  const aParts = aMain.split(".").map((p) => parseInt(p, 10) || 0);
+  const bParts = bMain.split(".").map((p) => parseInt(p, 10) || 0);
+  const length = Math.max(aParts.length, bParts.length);
+
+  for (let i = 0; i < length; i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) {
+      return diff < 0 ? -1 : 1;
+    }
+  }
+
+  if (aPre && !bPre) return -1;
+  if (!aPre && bPre) return 1;
+  if (aPre && bPre && aPre !== bPre) return aPre < bPre ? -1 : 1;
+  return 0;
+}
+
+// Decide what to run for one extension, given the version recorded in the
+// file and the version currently installed (if any). A bundled .vsix, when
+// available, replaces the marketplace download. Throws for an ID or version
+// that is not safe to hand to the CLI.
+export function planInstall(
+  extensionId: string,
+  fileVersion: string | undefined,
+  installedVersion: string | undefined,
+  policy: VersionPolicy,
+  localPackage?: string
+): InstallPlan {
+  if (!EXTENSION_ID.test(extensionId)) {
+    throw new Error(`"${extensionId}" is not a publisher.name extension ID`);
+  }
+  if (fileVersion && !EXTENSION_VERSION.test(fileVersion)) {
+    throw new Error(
+      `"${fileVersion}" is not a valid version of ${extensionId}`
+    );
+  }
+  const plan = planMarketplaceInstall(
+    extensionId,
+    fileVersion,
+    installedVersion,
+    policy
+  );
+  if (plan.action === "install" && localPackage) {
+    return { ...plan, spec: localPackage };
+  }
+  return plan;
+}
+
+// Whether to install from the pre-release channel. Pinned versions and
+// local packages already decide what gets installed.
+export function usePreRelease(extension: ExtensionData, spec: string): boolean {
+  return !!extension.preRelease && spec === extension.id;
+}
+
+function planMarketplaceInstall(
+  extensionId: string,
+  fileVersion: string | undefined,
+  installedVersion: string | undefined,
+  policy: VersionPolicy
+): InstallPlan {
+  // Without a recorded version there is nothing to pin to
+  if (!fileVersion || policy === VersionPolicy.Latest) {
+    return installedVersion
+      ? { action: "skip", spec: extensionId, force: false, reason: "installed" }
+      : { action: "install", spec: extensionId, force: false };
+  }
+
+  if (policy === VersionPolicy.Minimum) {
+    if (
+      installedVersion &&
+      compareVersions(installedVersion, fileVersion) >= 0
+    ) {
+      return {
+        action: "skip",
+        spec: extensionId,
+        force: false,
+        reason: `installed ${installedVersion} >= ${fileVersion}`,
+      };
+    }
+    // The CLI cannot express ">=", so install the latest release
+    return {
+      action: "install",
+      spec: extensionId,
+      force: !!installedVersion,
+    };
+  }
+
+  if (installedVersion === fileVersion) {
+    return {
+      action: "skip",
+      spec: `${extensionId}@${fileVersion}`,
+      force: false,
+      reason: `installed ${installedVersion}`,
+    };
+  }
+  return {
+    action: "install",
+    spec: `${extensionId}@${fileVersion}`,
+    force: !!installedVersion,
+  };
+}
@@ -0,0 +1,96 @@
+import * as jsonc from "jsonc-parser";
+import { EXTENSION_ID } from "./exportSchema.js";
+
+// Workspace recommendations live in <folder>/.vscode/extensions.json:
+//   { "recommendations": ["id", ...], "unwantedRecommendations": ["id", ...] }
+export const RECOMMENDATIONS_FILE = ".vscode/extensions.json";
+
+export interface WorkspaceRecommendations {
+  recommendations: string[];
+  unwantedRecommendations: string[];
+}
+
+// Helper function to read both lists, keeping the strings that pass `keep`
+function readLists(
+  content: string,
+  keep: (id: string) => boolean
+): WorkspaceRecommendations {
+  const data = jsonc.parse(content) || {};
+  const ids = (value: any): string[] =>
+    Array.isArray(value)
+      ? value.filter((id) => typeof id === "string" && keep(id))
+      : [];
+  return {
+    recommendations: ids(data.recommendations),
+    unwantedRecommendations: ids(data.unwantedRecommendations),
+  };
+}
+
+// Parse extensions.json (comments allowed), ignoring anything that is not
+// a publisher.name extension ID
+export function parseRecommendations(
+  content: string
+): WorkspaceRecommendations {
+  return readLists(content, (id) => EXTENSION_ID.test(id));
+}
+
+// Merge `incoming` into the existing file content. Existing entries keep
+// their order, new ones are appended, and an ID moved from one list to the
+// other is removed from its old list. Comments and formatting are kept.
+export function mergeRecommendations(
+  currentContent: string,
+  incoming: WorkspaceRecommendations
+): { text: string; added: string[]; addedUnwanted: string[] } {
+  // Entries already in the file are kept as written, even unusual ones
+  const current = readLists(currentContent, (id) => id.trim() !== "");
+  const lower = (ids: string[]) => new Set(ids.map((id) => id.toLowerCase()));
+  const wanted = lower(incoming.recommendations);
+  const unwanted = lower(incoming.unwantedRecommendations);
+
+  const merge = (existing: string[], add: string[], remove: Set<string>) => {
+    const kept = existing.filter((id) => !remove.has(id.toLowerCase()));
+    const known = lower(kept);
+    const added = add.filter((id) => {
+      const key = id.toLowerCase();
+      if (known.has(key)) {
+        return false;
+      }
+      known.add(key);
+      return true;
+    });
+    const changed = added.length > 0 || kept.length !== existing.length;
+    return { list: kept.concat(added), added, changed };
+  };
+  const recommendations = merge(
+    current.recommendations,
+    incoming.recommendations,
+    unwanted
+  );
+  const unwantedRecommendations = merge(
+    current.unwantedRecommendations,
+    incoming.unwantedRecommendations,
+    wanted
+  );
+
+  let text = currentContent.trim() ? currentContent : "{\n}\n";
+  const formattingOptions = { insertSpaces: true, tabSize: 2, eol: "\n" };
+  const set = (key: string, value: string[]) => {
+    text = jsonc.applyEdits(
+      text,
+      jsonc.modify(text, [key], value, { formattingOptions })
+    );
+  };
+  // Untouched lists are left exactly as they were written
+  if (recommendations.changed || !currentContent.trim()) {
+    set("recommendations", recommendations.list);
+  }
+  if (unwantedRecommendations.changed) {
+    set("unwantedRecommendations", unwantedRecommendations.list);
+  }
+
+  return {
+    text,
+    added: recommendations.added,
+    addedUnwanted: unwantedRecommendations.added,
+  };
+}